@@ -0,0 +1,257 @@
+// Parser for the Clarity value representations returned by Clarinet
+// (receipt results, read-only results and print event payloads).
+// Accepts both the compact form (`{a: u1}`, `[u1, u2]`) and the
+// s-expression form (`(tuple (a u1))`, `(list u1 u2)`).
+
+export type ClarityValue =
+    | { type: 'uint'; value: bigint }
+    | { type: 'int'; value: bigint }
+    | { type: 'bool'; value: boolean }
+    | { type: 'principal'; value: string }
+    | { type: 'ascii'; value: string }
+    | { type: 'utf8'; value: string }
+    | { type: 'buff'; value: string }
+    | { type: 'none' }
+    | { type: 'some'; value: ClarityValue }
+    | { type: 'ok'; value: ClarityValue }
+    | { type: 'err'; value: ClarityValue }
+    | { type: 'list'; value: ClarityValue[] }
+    | { type: 'tuple'; value: Record<string, ClarityValue> };
+
+export class ClarityParseError extends Error {
+    constructor(message: string, readonly source: string) {
+        super(`${message} in "${source}"`);
+        this.name = 'ClarityParseError';
+    }
+}
+
+class Parser {
+    private pos = 0;
+
+    constructor(private readonly src: string) {}
+
+    parse(): ClarityValue {
+        const value = this.value();
+        this.skipWhitespace();
+        if (this.pos !== this.src.length) {
+            this.fail(`Unexpected trailing input at ${this.pos}`);
+        }
+        return value;
+    }
+
+    private fail(message: string): never {
+        throw new ClarityParseError(message, this.src);
+    }
+
+    private skipWhitespace() {
+        while (this.pos < this.src.length && /[\s,]/.test(this.src[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private peek(offset = 0): string {
+        return this.src[this.pos + offset] ?? '';
+    }
+
+    private expect(char: string) {
+        this.skipWhitespace();
+        if (this.src[this.pos] !== char) {
+            this.fail(`Expected "${char}" at ${this.pos}`);
+        }
+        this.pos++;
+    }
+
+    private atom(): string {
+        this.skipWhitespace();
+        const start = this.pos;
+        while (this.pos < this.src.length && !/[\s,(){}\[\]:]/.test(this.src[this.pos])) {
+            this.pos++;
+        }
+        if (start === this.pos) {
+            this.fail(`Expected a token at ${this.pos}`);
+        }
+        return this.src.slice(start, this.pos);
+    }
+
+    private string(): string {
+        this.expect('"');
+        let out = '';
+        while (this.pos < this.src.length) {
+            const char = this.src[this.pos++];
+            if (char === '"') {
+                return out;
+            }
+            if (char !== '\\') {
+                out += char;
+                continue;
+            }
+            const escaped = this.src[this.pos++];
+            switch (escaped) {
+                case 'n': out += '\n'; break;
+                case 't': out += '\t'; break;
+                case 'r': out += '\r'; break;
+                case '0': out += '\0'; break;
+                case 'u': {
+                    const close = this.src.indexOf('}', this.pos);
+                    if (this.src[this.pos] !== '{' || close === -1) {
+                        this.fail(`Invalid unicode escape at ${this.pos}`);
+                    }
+                    out += String.fromCodePoint(parseInt(this.src.slice(this.pos + 1, close), 16));
+                    this.pos = close + 1;
+                    break;
+                }
+                default: out += escaped;
+            }
+        }
+        this.fail('Unterminated string');
+    }
+
+    private value(): ClarityValue {
+        this.skipWhitespace();
+        const char = this.peek();
+        if (char === '"') {
+            return { type: 'ascii', value: this.string() };
+        }
+        if (char === 'u' && this.peek(1) === '"') {
+            this.pos++;
+            return { type: 'utf8', value: this.string() };
+        }
+        if (char === '[') {
+            this.pos++;
+            return { type: 'list', value: this.items(']') };
+        }
+        if (char === '{') {
+            this.pos++;
+            return { type: 'tuple', value: this.fields() };
+        }
+        if (char === '(') {
+            this.pos++;
+            return this.form();
+        }
+        return this.literal(this.atom());
+    }
+
+    private items(close: string): ClarityValue[] {
+        const items: ClarityValue[] = [];
+        this.skipWhitespace();
+        while (this.peek() !== close) {
+            if (this.pos >= this.src.length) {
+                this.fail(`Expected "${close}"`);
+            }
+            items.push(this.value());
+            this.skipWhitespace();
+        }
+        this.pos++;
+        return items;
+    }
+
+    private fields(): Record<string, ClarityValue> {
+        const fields: Record<string, ClarityValue> = {};
+        this.skipWhitespace();
+        while (this.peek() !== '}') {
+            const name = this.atom();
+            this.expect(':');
+            fields[name] = this.value();
+            this.skipWhitespace();
+        }
+        this.pos++;
+        return fields;
+    }
+
+    private form(): ClarityValue {
+        const head = this.atom();
+        switch (head) {
+            case 'ok':
+            case 'err':
+            case 'some': {
+                const value = this.value();
+                this.expect(')');
+                return head === 'ok' ? { type: 'ok', value }
+                    : head === 'err' ? { type: 'err', value }
+                    : { type: 'some', value };
+            }
+            case 'list':
+                return { type: 'list', value: this.items(')') };
+            case 'tuple': {
+                const fields: Record<string, ClarityValue> = {};
+                this.skipWhitespace();
+                while (this.peek() !== ')') {
+                    this.expect('(');
+                    const name = this.atom();
+                    fields[name] = this.value();
+                    this.expect(')');
+                    this.skipWhitespace();
+                }
+                this.pos++;
+                return { type: 'tuple', value: fields };
+            }
+            default:
+                this.fail(`Unknown form "${head}"`);
+        }
+    }
+
+    private literal(token: string): ClarityValue {
+        if (token === 'true' || token === 'false') {
+            return { type: 'bool', value: token === 'true' };
+        }
+        if (token === 'none') {
+            return { type: 'none' };
+        }
+        if (/^u\d+$/.test(token)) {
+            return { type: 'uint', value: BigInt(token.slice(1)) };
+        }
+        if (/^-?\d+$/.test(token)) {
+            return { type: 'int', value: BigInt(token) };
+        }
+        if (/^0x[0-9a-fA-F]*$/.test(token)) {
+            return { type: 'buff', value: token.slice(2) };
+        }
+        if (/^'?S[0-9A-Z]+(\.[a-zA-Z][a-zA-Z0-9_-]*)?$/.test(token)) {
+            return { type: 'principal', value: token.replace(/^'/, '') };
+        }
+        this.fail(`Unknown literal "${token}"`);
+    }
+}
+
+export function parseClarityValue(src: string): ClarityValue {
+    return new Parser(src.trim()).parse();
+}
+
+function mismatch(expected: string, value: ClarityValue): never {
+    throw new TypeError(`Expected a Clarity ${expected}, got ${value.type}`);
+}
+
+export function expectUint(value: ClarityValue): bigint {
+    return value.type === 'uint' ? value.value : mismatch('uint', value);
+}
+
+export function expectInt(value: ClarityValue): bigint {
+    return value.type === 'int' ? value.value : mismatch('int', value);
+}
+
+export function expectBool(value: ClarityValue): boolean {
+    return value.type === 'bool' ? value.value : mismatch('bool', value);
+}
+
+export function expectPrincipal(value: ClarityValue): string {
+    return value.type === 'principal' ? value.value : mismatch('principal', value);
+}
+
+export function expectString(value: ClarityValue): string {
+    return value.type === 'ascii' || value.type === 'utf8' ? value.value : mismatch('string', value);
+}
+
+export function expectList<T>(value: ClarityValue, decode: (item: ClarityValue) => T): T[] {
+    return value.type === 'list' ? value.value.map(decode) : mismatch('list', value);
+}
+
+export function expectTuple(value: ClarityValue): Record<string, ClarityValue> {
+    return value.type === 'tuple' ? value.value : mismatch('tuple', value);
+}
+
+export function expectOptional<T>(value: ClarityValue, decode: (inner: ClarityValue) => T): T | undefined {
+    if (value.type === 'none') {
+        return undefined;
+    }
+    return value.type === 'some' ? decode(value.value) : mismatch('optional', value);
+}
@@ -0,0 +1,1398 @@
+// Typed binding for the charity_plaform contract.
+// Public functions build transactions for `chain.mineBlock`, read-only
+// functions are called directly and return decoded values.
+
+import { Tx, Chain, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import {
+    ClarityValue,
+    parseClarityValue,
+    expectBool,
+    expectList,
+    expectOptional,
+    expectPrincipal,
+    expectString,
+    expectTuple,
+    expectUint,
+} from './clarity.ts';
+import { ContractError, decodeError } from './errors.ts';
+
+export const CONTRACT_NAME = 'charity_plaform';
+
+// Number of records returned by one call to get-donation-records
+export const DONATION_PAGE_SIZE = 10;
+
+// Campaign ids scanned by one call to get-campaigns
+export const CAMPAIGN_PAGE_SIZE = 10;
+
+// Pledge ids scanned by one call to get-due-pledges
+export const PLEDGE_PAGE_SIZE = 10;
+
+// Token ids returned by one call to get-tokens-by-owner, -creator or -category
+export const TOKEN_PAGE_SIZE = 10;
+
+// Blocks a listing stays valid for when no duration is given (about ten days)
+export const DEFAULT_LISTING_DURATION = 1440;
+
+export type Uint = number | bigint;
+
+// Role ids accepted by grant-role, revoke-role and has-role
+export const ROLES = {
+    admin: 1,
+    campaignManager: 2,
+    pauser: 3,
+    appraiser: 4,
+} as const;
+
+export type Role = keyof typeof ROLES;
+
+// Action ids accepted by propose
+export const PROPOSAL_ACTIONS = {
+    'charity-address': 1,
+    'donation-percentage': 2,
+    'add-signer': 3,
+    'remove-signer': 4,
+    'threshold': 5,
+    'timelock': 6,
+} as const;
+
+export type ProposalAction = keyof typeof PROPOSAL_ACTIONS;
+
+// Campaign status ids returned by get-campaign-status
+export const CAMPAIGN_STATUSES = {
+    draft: 1,
+    active: 2,
+    paused: 3,
+    succeeded: 4,
+    failed: 5,
+    closed: 6,
+} as const;
+
+export type CampaignStatus = keyof typeof CAMPAIGN_STATUSES;
+
+// Filter ids accepted by get-campaigns. `expired` means past the deadline,
+// `goal-met` that the campaign raised at least its goal.
+export const CAMPAIGN_FILTERS = {
+    'all': 0,
+    'active': 1,
+    'expired': 2,
+    'goal-met': 3,
+} as const;
+
+export type CampaignFilter = keyof typeof CAMPAIGN_FILTERS;
+
+export type GovernanceChange =
+    | { action: 'charity-address' | 'add-signer' | 'remove-signer'; account: string }
+    | { action: 'donation-percentage' | 'threshold' | 'timelock'; value: Uint };
+
+export type Response<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: ContractError };
+
+export interface TokenMetadata {
+    creator: string;
+    timestamp: bigint;
+    category: string;
+}
+
+export interface Campaign {
+    name: string;
+    description: string;
+    goal: bigint;
+    raised: bigint;
+    deadline: bigint;
+    status: CampaignStatus;
+    beneficiary: string;
+    allOrNothing: boolean;
+    manager: string;
+}
+
+export interface ListedCampaign extends Campaign {
+    id: bigint;
+}
+
+export interface TopDonor {
+    donor: string;
+    amount: bigint;
+}
+
+export interface NewCampaign {
+    name: string;
+    description: string;
+    goal: Uint;
+    // Blocks from creation until the deadline
+    duration: Uint;
+    beneficiary: string;
+    // Hold donations in escrow until the deadline and refund them if the goal is missed
+    allOrNothing?: boolean;
+    // Create the campaign as a draft that must be launched before taking donations
+    draft?: boolean;
+}
+
+export interface Offer {
+    bidder: string;
+    amount: bigint;
+    expiry: bigint;
+}
+
+export interface RoyaltyInfo {
+    recipient: string;
+    amount: bigint;
+}
+
+export interface NewAuction {
+    campaignId: Uint;
+    tokenId: Uint;
+    startBlock: Uint;
+    endBlock: Uint;
+    reserve: Uint;
+    minIncrement: Uint;
+}
+
+export interface Auction {
+    campaignId: bigint;
+    startBlock: bigint;
+    endBlock: bigint;
+    reserve: bigint;
+    minIncrement: bigint;
+    highestBidder?: string;
+    highestBid: bigint;
+    settled: boolean;
+}
+
+// A donated NFT credits nothing while value is undefined; appraisers holds
+// the attestations so far and lowestAppraisal the smallest of them.
+export interface NftDonation {
+    campaignId: bigint;
+    donor: string;
+    appraisers: string[];
+    lowestAppraisal: bigint;
+    value?: bigint;
+}
+
+export interface MatchingPool {
+    // Basis points of each STX donation matched; 10000 matches one for one
+    ratio: bigint;
+    deposited: bigint;
+    matched: bigint;
+    reclaimed: boolean;
+}
+
+// A campaign's raised amount split into donor-given, sponsor-matched and
+// funding-round-matched parts
+export interface CampaignFunding {
+    organic: bigint;
+    matched: bigint;
+    roundMatched: bigint;
+}
+
+export interface Pledge {
+    donor: string;
+    campaignId: bigint;
+    // Released every interval blocks, or what is left of the balance
+    amount: bigint;
+    interval: bigint;
+    // First block at which process-pledge releases the next payment
+    nextRelease: bigint;
+    balance: bigint;
+    cancelled: boolean;
+}
+
+export interface NewRound {
+    pot: Uint;
+    startBlock: Uint;
+    endBlock: Uint;
+    // At most ten campaigns, none of them all-or-nothing
+    campaignIds: Uint[];
+}
+
+export interface Round {
+    sponsor: string;
+    pot: bigint;
+    startBlock: bigint;
+    endBlock: bigint;
+    campaignIds: bigint[];
+    finalized: boolean;
+}
+
+// A campaign's standing in a round; matched is set when the round is finalized
+export interface RoundCampaign {
+    contributed: bigint;
+    donors: bigint;
+    // Sum of the square roots of each donor's contribution
+    sumSqrt: bigint;
+    matched: bigint;
+}
+
+export interface CampaignSplit {
+    recipient: string;
+    // Basis points of each payment to the campaign
+    share: bigint;
+}
+
+export interface ListingOptions {
+    // Campaign that receives the charity share of the sale
+    campaignId?: Uint;
+    // Blocks until the listing expires, DEFAULT_LISTING_DURATION by default
+    duration?: Uint;
+    // Approved SIP-010 contract to price the listing in instead of STX
+    paymentToken?: string;
+}
+
+export interface Listing {
+    seller: string;
+    price: bigint;
+    expiry: bigint;
+    campaignId?: bigint;
+    paymentToken?: string;
+}
+
+export interface DonationSummary {
+    total: bigint;
+    count: bigint;
+    lastBlock: bigint;
+}
+
+export interface DonationRecord {
+    index: bigint;
+    amount: bigint;
+    block: bigint;
+    memo?: string;
+}
+
+export interface CampaignStats {
+    nftsDonated: bigint[];
+    totalValue: bigint;
+}
+
+export interface Milestone {
+    description: string;
+    targetAmount: bigint;
+    // Campaign-wide goals compare the campaign's raised amount, per-donor tiers the caller's contribution
+    campaignWide: boolean;
+    claims: bigint;
+    rewardUri: string;
+}
+
+export interface Proposal {
+    action: ProposalAction;
+    value: bigint;
+    target?: string;
+    proposer: string;
+    approvals: bigint;
+    // Block from which the proposal can be executed, once approved
+    executableAt?: bigint;
+    executed: boolean;
+    cancelled: boolean;
+}
+
+export interface PendingProposal extends Proposal {
+    id: bigint;
+}
+
+export interface Badge {
+    campaignId: bigint;
+    // Undefined for proof-of-donation badges
+    milestoneId?: bigint;
+    uri: string;
+    awardedAt: bigint;
+}
+
+export interface CampaignReport {
+    name: string;
+    totalRaised: bigint;
+    goalPercentage: bigint;
+    totalNfts: bigint;
+    // Escrowed NFTs whose donation has not been valued yet
+    pendingNfts: bigint;
+    status: CampaignStatus;
+    // Zero once the deadline has passed
+    remainingBlocks: bigint;
+}
+
+export function decodeResponse<T>(raw: string, decodeOk: (value: ClarityValue) => T): Response<T> {
+    const value = parseClarityValue(raw);
+    if (value.type === 'ok') {
+        return { ok: true, value: decodeOk(value.value) };
+    }
+    if (value.type === 'err') {
+        return { ok: false, error: decodeError(expectUint(value.value)) };
+    }
+    throw new TypeError(`Expected a Clarity response, got ${value.type}`);
+}
+
+export function decodeReceipt<T>(receipt: { result: string }, decodeOk: (value: ClarityValue) => T): Response<T> {
+    return decodeResponse(receipt.result, decodeOk);
+}
+
+export function decodeTokenMetadata(value: ClarityValue): TokenMetadata {
+    const tuple = expectTuple(value);
+    return {
+        creator: expectPrincipal(tuple['creator']),
+        timestamp: expectUint(tuple['timestamp']),
+        category: expectString(tuple['category']),
+    };
+}
+
+export function decodeCampaignStatus(value: ClarityValue): CampaignStatus {
+    const statusId = Number(expectUint(value));
+    const status = (Object.keys(CAMPAIGN_STATUSES) as CampaignStatus[])
+        .find((name) => CAMPAIGN_STATUSES[name] === statusId);
+    if (!status) {
+        throw new TypeError(`Unknown campaign status u${statusId}`);
+    }
+    return status;
+}
+
+export function decodeCampaign(value: ClarityValue): Campaign {
+    const tuple = expectTuple(value);
+    return {
+        name: expectString(tuple['name']),
+        description: expectString(tuple['description']),
+        goal: expectUint(tuple['goal']),
+        raised: expectUint(tuple['raised']),
+        deadline: expectUint(tuple['deadline']),
+        status: decodeCampaignStatus(tuple['status']),
+        beneficiary: expectPrincipal(tuple['beneficiary']),
+        allOrNothing: expectBool(tuple['all-or-nothing']),
+        manager: expectPrincipal(tuple['manager']),
+    };
+}
+
+export function decodeListedCampaign(value: ClarityValue): ListedCampaign {
+    return { id: expectUint(expectTuple(value)['id']), ...decodeCampaign(value) };
+}
+
+export function decodeTopDonor(value: ClarityValue): TopDonor {
+    const tuple = expectTuple(value);
+    return {
+        donor: expectPrincipal(tuple['donor']),
+        amount: expectUint(tuple['amount']),
+    };
+}
+
+export function decodeListing(value: ClarityValue): Listing {
+    const tuple = expectTuple(value);
+    const campaignId = expectOptional(tuple['campaign-id'], expectUint);
+    const paymentToken = expectOptional(tuple['payment-token'], expectPrincipal);
+    return {
+        seller: expectPrincipal(tuple['seller']),
+        price: expectUint(tuple['price']),
+        expiry: expectUint(tuple['expiry']),
+        ...(campaignId === undefined ? {} : { campaignId }),
+        ...(paymentToken === undefined ? {} : { paymentToken }),
+    };
+}
+
+// get-offer omits the bidder, so it is passed in by the caller.
+export function decodeOffer(value: ClarityValue, bidder?: string): Offer {
+    const tuple = expectTuple(value);
+    return {
+        bidder: bidder ?? expectPrincipal(tuple['bidder']),
+        amount: expectUint(tuple['amount']),
+        expiry: expectUint(tuple['expiry']),
+    };
+}
+
+export function decodeRoyaltyInfo(value: ClarityValue): RoyaltyInfo {
+    const tuple = expectTuple(value);
+    return {
+        recipient: expectPrincipal(tuple['recipient']),
+        amount: expectUint(tuple['amount']),
+    };
+}
+
+export function decodeAuction(value: ClarityValue): Auction {
+    const tuple = expectTuple(value);
+    const highestBidder = expectOptional(tuple['highest-bidder'], expectPrincipal);
+    return {
+        campaignId: expectUint(tuple['campaign-id']),
+        startBlock: expectUint(tuple['start-block']),
+        endBlock: expectUint(tuple['end-block']),
+        reserve: expectUint(tuple['reserve']),
+        minIncrement: expectUint(tuple['min-increment']),
+        ...(highestBidder === undefined ? {} : { highestBidder }),
+        highestBid: expectUint(tuple['highest-bid']),
+        settled: expectBool(tuple['settled']),
+    };
+}
+
+export function decodeNftDonation(value: ClarityValue): NftDonation {
+    const tuple = expectTuple(value);
+    const donationValue = expectOptional(tuple['value'], expectUint);
+    return {
+        campaignId: expectUint(tuple['campaign-id']),
+        donor: expectPrincipal(tuple['donor']),
+        appraisers: expectList(tuple['appraisers'], expectPrincipal),
+        lowestAppraisal: expectUint(tuple['lowest-appraisal']),
+        ...(donationValue === undefined ? {} : { value: donationValue }),
+    };
+}
+
+export function decodeMatchingPool(value: ClarityValue): MatchingPool {
+    const tuple = expectTuple(value);
+    return {
+        ratio: expectUint(tuple['ratio']),
+        deposited: expectUint(tuple['deposited']),
+        matched: expectUint(tuple['matched']),
+        reclaimed: expectBool(tuple['reclaimed']),
+    };
+}
+
+export function decodeCampaignFunding(value: ClarityValue): CampaignFunding {
+    const tuple = expectTuple(value);
+    return {
+        organic: expectUint(tuple['organic']),
+        matched: expectUint(tuple['matched']),
+        roundMatched: expectUint(tuple['round-matched']),
+    };
+}
+
+export function decodePledge(value: ClarityValue): Pledge {
+    const tuple = expectTuple(value);
+    return {
+        donor: expectPrincipal(tuple['donor']),
+        campaignId: expectUint(tuple['campaign-id']),
+        amount: expectUint(tuple['amount']),
+        interval: expectUint(tuple['interval']),
+        nextRelease: expectUint(tuple['next-release']),
+        balance: expectUint(tuple['balance']),
+        cancelled: expectBool(tuple['cancelled']),
+    };
+}
+
+export function decodeRound(value: ClarityValue): Round {
+    const tuple = expectTuple(value);
+    return {
+        sponsor: expectPrincipal(tuple['sponsor']),
+        pot: expectUint(tuple['pot']),
+        startBlock: expectUint(tuple['start-block']),
+        endBlock: expectUint(tuple['end-block']),
+        campaignIds: expectList(tuple['campaigns'], expectUint),
+        finalized: expectBool(tuple['finalized']),
+    };
+}
+
+export function decodeRoundCampaign(value: ClarityValue): RoundCampaign {
+    const tuple = expectTuple(value);
+    return {
+        contributed: expectUint(tuple['contributed']),
+        donors: expectUint(tuple['donors']),
+        sumSqrt: expectUint(tuple['sum-sqrt']),
+        matched: expectUint(tuple['matched']),
+    };
+}
+
+export function decodeCampaignSplit(value: ClarityValue): CampaignSplit {
+    const tuple = expectTuple(value);
+    return {
+        recipient: expectPrincipal(tuple['recipient']),
+        share: expectUint(tuple['share']),
+    };
+}
+
+export function decodeDonationSummary(value: ClarityValue): DonationSummary {
+    const tuple = expectTuple(value);
+    return {
+        total: expectUint(tuple['total']),
+        count: expectUint(tuple['count']),
+        lastBlock: expectUint(tuple['last-block']),
+    };
+}
+
+// get-donation-record omits the index, so it is passed in by the caller.
+export function decodeDonationRecord(value: ClarityValue, index?: bigint): DonationRecord {
+    const tuple = expectTuple(value);
+    const memo = expectOptional(tuple['memo'], expectString);
+    return {
+        index: index ?? expectUint(tuple['index']),
+        amount: expectUint(tuple['amount']),
+        block: expectUint(tuple['block']),
+        ...(memo === undefined ? {} : { memo }),
+    };
+}
+
+export function decodeCampaignStats(value: ClarityValue): CampaignStats {
+    const tuple = expectTuple(value);
+    return {
+        nftsDonated: expectList(tuple['nfts-donated'], expectUint),
+        totalValue: expectUint(tuple['total-value']),
+    };
+}
+
+export function decodeMilestone(value: ClarityValue): Milestone {
+    const tuple = expectTuple(value);
+    return {
+        description: expectString(tuple['description']),
+        targetAmount: expectUint(tuple['target-amount']),
+        campaignWide: expectBool(tuple['campaign-wide']),
+        claims: expectUint(tuple['claims']),
+        rewardUri: expectString(tuple['reward-uri']),
+    };
+}
+
+export function decodeProposal(value: ClarityValue): Proposal {
+    const tuple = expectTuple(value);
+    const actionId = Number(expectUint(tuple['action']));
+    const action = (Object.keys(PROPOSAL_ACTIONS) as ProposalAction[])
+        .find((name) => PROPOSAL_ACTIONS[name] === actionId);
+    if (!action) {
+        throw new TypeError(`Unknown proposal action u${actionId}`);
+    }
+    const target = expectOptional(tuple['target'], expectPrincipal);
+    const executableAt = expectOptional(tuple['executable-at'], expectUint);
+    return {
+        action,
+        value: expectUint(tuple['value']),
+        ...(target === undefined ? {} : { target }),
+        proposer: expectPrincipal(tuple['proposer']),
+        approvals: expectUint(tuple['approvals']),
+        ...(executableAt === undefined ? {} : { executableAt }),
+        executed: expectBool(tuple['executed']),
+        cancelled: expectBool(tuple['cancelled']),
+    };
+}
+
+export function decodePendingProposal(value: ClarityValue): PendingProposal {
+    return { id: expectUint(expectTuple(value)['id']), ...decodeProposal(value) };
+}
+
+export function decodeBadge(value: ClarityValue): Badge {
+    const tuple = expectTuple(value);
+    const milestoneId = expectOptional(tuple['milestone-id'], expectUint);
+    return {
+        campaignId: expectUint(tuple['campaign-id']),
+        ...(milestoneId === undefined ? {} : { milestoneId }),
+        uri: expectString(tuple['uri']),
+        awardedAt: expectUint(tuple['awarded-at']),
+    };
+}
+
+export function decodeCampaignReport(value: ClarityValue): CampaignReport {
+    const tuple = expectTuple(value);
+    return {
+        name: expectString(tuple['name']),
+        totalRaised: expectUint(tuple['total-raised']),
+        goalPercentage: expectUint(tuple['goal-percentage']),
+        totalNfts: expectUint(tuple['total-nfts']),
+        pendingNfts: expectUint(tuple['pending-nfts']),
+        status: decodeCampaignStatus(tuple['status']),
+        remainingBlocks: expectUint(tuple['remaining-blocks']),
+    };
+}
+
+export class CharityPlatformClient {
+    constructor(
+        private readonly chain: Chain,
+        private readonly caller: string,
+        readonly contract: string = CONTRACT_NAME,
+    ) {}
+
+    private call(method: string, args: string[], sender: string): Tx {
+        return Tx.contractCall(this.contract, method, args, sender);
+    }
+
+    private read<T>(method: string, args: string[], decode: (value: ClarityValue) => T): T {
+        const { result } = this.chain.callReadOnlyFn(this.contract, method, args, this.caller);
+        return decode(parseClarityValue(result));
+    }
+
+    // For read-only functions that wrap their value in `(ok ...)` and never fail.
+    private readOk<T>(method: string, args: string[], decode: (value: ClarityValue) => T): T {
+        const { result } = this.chain.callReadOnlyFn(this.contract, method, args, this.caller);
+        const response = decodeResponse(result, decode);
+        if (!response.ok) {
+            throw new Error(`${method} failed with ${response.error.name}`);
+        }
+        return response.value;
+    }
+
+    private walkTokenPages(count: bigint, page: (offset: bigint) => bigint[]): bigint[] {
+        const tokens: bigint[] = [];
+        for (let offset = 0n; offset < count; offset += BigInt(TOKEN_PAGE_SIZE)) {
+            tokens.push(...page(offset));
+        }
+        return tokens;
+    }
+
+    // NFT core
+
+    mint(uri: string, category: string, sender: string): Tx {
+        return this.call('mint', [types.ascii(uri), types.utf8(category)], sender);
+    }
+
+    // `from` is the SIP-009 sender argument and defaults to the transaction sender.
+    transfer(tokenId: Uint, recipient: string, sender: string, from: string = sender): Tx {
+        return this.call('transfer', [types.uint(tokenId), types.principal(from), types.principal(recipient)], sender);
+    }
+
+    listForSale(tokenId: Uint, price: Uint, sender: string, options: ListingOptions = {}): Tx {
+        return this.call('list-for-sale', [
+            types.uint(tokenId),
+            types.uint(price),
+            types.uint(options.duration ?? DEFAULT_LISTING_DURATION),
+            options.campaignId === undefined ? types.none() : types.some(types.uint(options.campaignId)),
+            options.paymentToken === undefined ? types.none() : types.some(types.principal(options.paymentToken)),
+        ], sender);
+    }
+
+    updateListingPrice(tokenId: Uint, price: Uint, sender: string): Tx {
+        return this.call('update-listing-price', [types.uint(tokenId), types.uint(price)], sender);
+    }
+
+    unlist(tokenId: Uint, sender: string): Tx {
+        return this.call('unlist', [types.uint(tokenId)], sender);
+    }
+
+    buyNft(tokenId: Uint, sender: string): Tx {
+        return this.call('buy-nft', [types.uint(tokenId)], sender);
+    }
+
+    // token is the contract principal the listing is priced in
+    buyNftWithToken(tokenId: Uint, token: string, sender: string): Tx {
+        return this.call('buy-nft-with-token', [types.uint(tokenId), types.principal(token)], sender);
+    }
+
+    // Marketplace offers
+
+    makeOffer(tokenId: Uint, amount: Uint, duration: Uint, sender: string): Tx {
+        return this.call('make-offer', [types.uint(tokenId), types.uint(amount), types.uint(duration)], sender);
+    }
+
+    cancelOffer(tokenId: Uint, sender: string): Tx {
+        return this.call('cancel-offer', [types.uint(tokenId)], sender);
+    }
+
+    acceptOffer(tokenId: Uint, bidder: string, sender: string): Tx {
+        return this.call('accept-offer', [types.uint(tokenId), types.principal(bidder)], sender);
+    }
+
+    // Creator royalties
+
+    setTokenRoyalty(tokenId: Uint, bps: Uint, sender: string): Tx {
+        return this.call('set-token-royalty', [types.uint(tokenId), types.uint(bps)], sender);
+    }
+
+    setCreatorRoyalty(bps: Uint, sender: string): Tx {
+        return this.call('set-creator-royalty', [types.uint(bps)], sender);
+    }
+
+    // Charity campaigns
+
+    createCharityCampaign(campaign: NewCampaign, sender: string): Tx {
+        return this.call('create-charity-campaign', [
+            types.utf8(campaign.name),
+            types.utf8(campaign.description),
+            types.uint(campaign.goal),
+            types.uint(campaign.duration),
+            types.principal(campaign.beneficiary),
+            types.bool(campaign.allOrNothing ?? false),
+            types.bool(campaign.draft ?? false),
+        ], sender);
+    }
+
+    setCampaignSplits(campaignId: Uint, splits: { recipient: string; share: Uint }[], sender: string): Tx {
+        return this.call('set-campaign-splits', [
+            types.uint(campaignId),
+            types.list(splits.map((split) => types.tuple({
+                recipient: types.principal(split.recipient),
+                share: types.uint(split.share),
+            }))),
+        ], sender);
+    }
+
+    donateToCampaign(campaignId: Uint, amount: Uint, sender: string): Tx {
+        return this.call('donate-to-campaign', [types.uint(campaignId), types.uint(amount)], sender);
+    }
+
+    donateWithMemo(campaignId: Uint, amount: Uint, memo: string, sender: string): Tx {
+        return this.call('donate-with-memo', [types.uint(campaignId), types.uint(amount), types.utf8(memo)], sender);
+    }
+
+    withdrawCampaignFunds(campaignId: Uint, sender: string): Tx {
+        return this.call('withdraw-campaign-funds', [types.uint(campaignId)], sender);
+    }
+
+    claimRefund(campaignId: Uint, sender: string): Tx {
+        return this.call('claim-refund', [types.uint(campaignId)], sender);
+    }
+
+    donateNftToCampaign(tokenId: Uint, campaignId: Uint, sender: string): Tx {
+        return this.call('donate-nft-to-campaign', [types.uint(tokenId), types.uint(campaignId)], sender);
+    }
+
+    // token is the contract principal of an approved SIP-010 token
+    donateTokenToCampaign(campaignId: Uint, token: string, amount: Uint, sender: string): Tx {
+        return this.call(
+            'donate-token-to-campaign',
+            [types.uint(campaignId), types.principal(token), types.uint(amount)],
+            sender,
+        );
+    }
+
+    // Matching pools
+
+    // Deposits amount to match STX donations at ratio basis points until it runs out
+    fundMatchingPool(campaignId: Uint, ratio: Uint, amount: Uint, sender: string): Tx {
+        return this.call('fund-matching-pool', [types.uint(campaignId), types.uint(ratio), types.uint(amount)], sender);
+    }
+
+    reclaimMatching(campaignId: Uint, sender: string): Tx {
+        return this.call('reclaim-matching', [types.uint(campaignId)], sender);
+    }
+
+    // Recurring pledges
+
+    // Escrows deposit and donates amount of it every interval blocks
+    createPledge(campaignId: Uint, amount: Uint, interval: Uint, deposit: Uint, sender: string): Tx {
+        return this.call(
+            'create-pledge',
+            [types.uint(campaignId), types.uint(amount), types.uint(interval), types.uint(deposit)],
+            sender,
+        );
+    }
+
+    // Anyone can process a due pledge
+    processPledge(pledgeId: Uint, sender: string): Tx {
+        return this.call('process-pledge', [types.uint(pledgeId)], sender);
+    }
+
+    cancelPledge(pledgeId: Uint, sender: string): Tx {
+        return this.call('cancel-pledge', [types.uint(pledgeId)], sender);
+    }
+
+    // Quadratic funding rounds
+
+    createRound(round: NewRound, sender: string): Tx {
+        return this.call('create-round', [
+            types.uint(round.pot),
+            types.uint(round.startBlock),
+            types.uint(round.endBlock),
+            types.list(round.campaignIds.map((id) => types.uint(id))),
+        ], sender);
+    }
+
+    // Anyone can finalize a round once its end block has passed
+    finalizeRound(roundId: Uint, sender: string): Tx {
+        return this.call('finalize-round', [types.uint(roundId)], sender);
+    }
+
+    // Campaign lifecycle
+
+    launchCampaign(campaignId: Uint, sender: string): Tx {
+        return this.call('launch-campaign', [types.uint(campaignId)], sender);
+    }
+
+    pauseCampaign(campaignId: Uint, sender: string): Tx {
+        return this.call('pause-campaign', [types.uint(campaignId)], sender);
+    }
+
+    resumeCampaign(campaignId: Uint, sender: string): Tx {
+        return this.call('resume-campaign', [types.uint(campaignId)], sender);
+    }
+
+    extendDeadline(campaignId: Uint, extension: Uint, sender: string): Tx {
+        return this.call('extend-deadline', [types.uint(campaignId), types.uint(extension)], sender);
+    }
+
+    endCampaign(campaignId: Uint, sender: string): Tx {
+        return this.call('end-campaign', [types.uint(campaignId)], sender);
+    }
+
+    closeCampaign(campaignId: Uint, sender: string): Tx {
+        return this.call('close-campaign', [types.uint(campaignId)], sender);
+    }
+
+    // Campaign NFT custody
+
+    sellCampaignNft(
+        campaignId: Uint,
+        tokenId: Uint,
+        price: Uint,
+        sender: string,
+        duration: Uint = DEFAULT_LISTING_DURATION,
+    ): Tx {
+        return this.call(
+            'sell-campaign-nft',
+            [types.uint(campaignId), types.uint(tokenId), types.uint(price), types.uint(duration)],
+            sender,
+        );
+    }
+
+    releaseCampaignNft(campaignId: Uint, tokenId: Uint, recipient: string, sender: string): Tx {
+        return this.call(
+            'release-campaign-nft',
+            [types.uint(campaignId), types.uint(tokenId), types.principal(recipient)],
+            sender,
+        );
+    }
+
+    // NFT appraisal
+
+    appraiseNft(tokenId: Uint, value: Uint, sender: string): Tx {
+        return this.call('appraise-nft', [types.uint(tokenId), types.uint(value)], sender);
+    }
+
+    // Campaign NFT auctions
+
+    createAuction(auction: NewAuction, sender: string): Tx {
+        return this.call('create-auction', [
+            types.uint(auction.campaignId),
+            types.uint(auction.tokenId),
+            types.uint(auction.startBlock),
+            types.uint(auction.endBlock),
+            types.uint(auction.reserve),
+            types.uint(auction.minIncrement),
+        ], sender);
+    }
+
+    placeBid(tokenId: Uint, amount: Uint, sender: string): Tx {
+        return this.call('place-bid', [types.uint(tokenId), types.uint(amount)], sender);
+    }
+
+    settleAuction(tokenId: Uint, sender: string): Tx {
+        return this.call('settle-auction', [types.uint(tokenId)], sender);
+    }
+
+    // Campaign milestones
+
+    addCampaignMilestone(
+        campaignId: Uint,
+        milestoneId: Uint,
+        description: string,
+        targetAmount: Uint,
+        rewardUri: string,
+        sender: string,
+        campaignWide = false,
+    ): Tx {
+        return this.call('add-campaign-milestone', [
+            types.uint(campaignId),
+            types.uint(milestoneId),
+            types.utf8(description),
+            types.uint(targetAmount),
+            types.ascii(rewardUri),
+            types.bool(campaignWide),
+        ], sender);
+    }
+
+    checkAndClaimMilestoneReward(campaignId: Uint, milestoneId: Uint, sender: string): Tx {
+        return this.call('check-and-claim-milestone-reward', [types.uint(campaignId), types.uint(milestoneId)], sender);
+    }
+
+    claimDonorBadge(campaignId: Uint, sender: string): Tx {
+        return this.call('claim-donor-badge', [types.uint(campaignId)], sender);
+    }
+
+    // Access control
+
+    grantRole(role: Role, account: string, sender: string): Tx {
+        return this.call('grant-role', [types.uint(ROLES[role]), types.principal(account)], sender);
+    }
+
+    revokeRole(role: Role, account: string, sender: string): Tx {
+        return this.call('revoke-role', [types.uint(ROLES[role]), types.principal(account)], sender);
+    }
+
+    transferOwnership(newOwner: string, sender: string): Tx {
+        return this.call('transfer-ownership', [types.principal(newOwner)], sender);
+    }
+
+    acceptOwnership(sender: string): Tx {
+        return this.call('accept-ownership', [], sender);
+    }
+
+    // Governance
+
+    propose(change: GovernanceChange, sender: string): Tx {
+        return this.call('propose', [
+            types.uint(PROPOSAL_ACTIONS[change.action]),
+            types.uint('value' in change ? change.value : 0),
+            'account' in change ? types.some(types.principal(change.account)) : types.none(),
+        ], sender);
+    }
+
+    approveProposal(proposalId: Uint, sender: string): Tx {
+        return this.call('approve-proposal', [types.uint(proposalId)], sender);
+    }
+
+    executeProposal(proposalId: Uint, sender: string): Tx {
+        return this.call('execute-proposal', [types.uint(proposalId)], sender);
+    }
+
+    cancelProposal(proposalId: Uint, sender: string): Tx {
+        return this.call('cancel-proposal', [types.uint(proposalId)], sender);
+    }
+
+    // Administration
+
+    setDonorBadgeUri(uri: string, sender: string): Tx {
+        return this.call('set-donor-badge-uri', [types.ascii(uri)], sender);
+    }
+
+    setPaymentToken(token: string, approved: boolean, sender: string): Tx {
+        return this.call('set-payment-token', [types.principal(token), types.bool(approved)], sender);
+    }
+
+    setRequiredAppraisals(count: Uint, sender: string): Tx {
+        return this.call('set-required-appraisals', [types.uint(count)], sender);
+    }
+
+    togglePause(sender: string): Tx {
+        return this.call('toggle-pause', [], sender);
+    }
+
+    // Read-only functions
+
+    getContractOwner(): string {
+        return this.read('get-contract-owner', [], expectPrincipal);
+    }
+
+    getPendingOwner(): string | undefined {
+        return this.read('get-pending-owner', [], (v) => expectOptional(v, expectPrincipal));
+    }
+
+    hasRole(role: Role, account: string): boolean {
+        return this.read('has-role', [types.uint(ROLES[role]), types.principal(account)], expectBool);
+    }
+
+    getCharityAddress(): string {
+        return this.read('get-charity-address', [], expectPrincipal);
+    }
+
+    getGovernanceSigners(): string[] {
+        return this.read('get-governance-signers', [], (v) => expectList(v, expectPrincipal));
+    }
+
+    getApprovalThreshold(): bigint {
+        return this.read('get-approval-threshold', [], expectUint);
+    }
+
+    getTimelockBlocks(): bigint {
+        return this.read('get-timelock-blocks', [], expectUint);
+    }
+
+    getProposal(proposalId: Uint): Proposal | undefined {
+        return this.read('get-proposal', [types.uint(proposalId)], (v) => expectOptional(v, decodeProposal));
+    }
+
+    hasApproved(proposalId: Uint, signer: string): boolean {
+        return this.read('has-approved', [types.uint(proposalId), types.principal(signer)], expectBool);
+    }
+
+    getPendingProposals(): PendingProposal[] {
+        return this.read('get-pending-proposals', [], (v) => expectList(v, decodePendingProposal));
+    }
+
+    getLastTokenId(): bigint {
+        return this.readOk('get-last-token-id', [], expectUint);
+    }
+
+    getTokenUri(tokenId: Uint): string | undefined {
+        return this.readOk('get-token-uri', [types.uint(tokenId)], (v) => expectOptional(v, expectString));
+    }
+
+    getOwner(tokenId: Uint): string | undefined {
+        return this.readOk('get-owner', [types.uint(tokenId)], (v) => expectOptional(v, expectPrincipal));
+    }
+
+    getPrice(tokenId: Uint): bigint | undefined {
+        return this.read('get-price', [types.uint(tokenId)], (v) => expectOptional(v, expectUint));
+    }
+
+    getTokenMetadata(tokenId: Uint): TokenMetadata | undefined {
+        return this.read('get-token-metadata', [types.uint(tokenId)], (v) => expectOptional(v, decodeTokenMetadata));
+    }
+
+    getOwnerTokenCount(owner: string): bigint {
+        return this.read('get-owner-token-count', [types.principal(owner)], expectUint);
+    }
+
+    // Owner order changes as tokens leave, so page through a snapshot within one block.
+    getTokensByOwner(owner: string, offset: Uint = 0): bigint[] {
+        return this.read(
+            'get-tokens-by-owner',
+            [types.principal(owner), types.uint(offset)],
+            (v) => expectList(v, expectUint),
+        );
+    }
+
+    getAllTokensByOwner(owner: string): bigint[] {
+        return this.walkTokenPages(this.getOwnerTokenCount(owner), (offset) => this.getTokensByOwner(owner, offset));
+    }
+
+    getCreatorTokenCount(creator: string): bigint {
+        return this.read('get-creator-token-count', [types.principal(creator)], expectUint);
+    }
+
+    getTokensByCreator(creator: string, offset: Uint = 0): bigint[] {
+        return this.read(
+            'get-tokens-by-creator',
+            [types.principal(creator), types.uint(offset)],
+            (v) => expectList(v, expectUint),
+        );
+    }
+
+    getAllTokensByCreator(creator: string): bigint[] {
+        return this.walkTokenPages(this.getCreatorTokenCount(creator), (offset) => this.getTokensByCreator(creator, offset));
+    }
+
+    getCategoryTokenCount(category: string): bigint {
+        return this.read('get-category-token-count', [types.utf8(category)], expectUint);
+    }
+
+    getTokensByCategory(category: string, offset: Uint = 0): bigint[] {
+        return this.read(
+            'get-tokens-by-category',
+            [types.utf8(category), types.uint(offset)],
+            (v) => expectList(v, expectUint),
+        );
+    }
+
+    getAllTokensByCategory(category: string): bigint[] {
+        return this.walkTokenPages(this.getCategoryTokenCount(category), (offset) => this.getTokensByCategory(category, offset));
+    }
+
+    getCampaignDetails(campaignId: Uint): Campaign | undefined {
+        return this.read('get-campaign-details', [types.uint(campaignId)], (v) => expectOptional(v, decodeCampaign));
+    }
+
+    getCampaignStatus(campaignId: Uint): CampaignStatus | undefined {
+        return this.read('get-campaign-status', [types.uint(campaignId)], (v) => expectOptional(v, decodeCampaignStatus));
+    }
+
+    getCampaignCount(): bigint {
+        return this.read('get-campaign-count', [], expectUint);
+    }
+
+    // One page of campaigns by id; filtered pages may hold fewer than CAMPAIGN_PAGE_SIZE.
+    getCampaigns(offset: Uint = 0, filter: CampaignFilter = 'all'): ListedCampaign[] {
+        return this.read(
+            'get-campaigns',
+            [types.uint(offset), types.uint(CAMPAIGN_FILTERS[filter])],
+            (v) => expectList(v, decodeListedCampaign),
+        );
+    }
+
+    // Walks every page of campaigns, oldest first.
+    getAllCampaigns(filter: CampaignFilter = 'all'): ListedCampaign[] {
+        const count = this.getCampaignCount();
+        const campaigns: ListedCampaign[] = [];
+        for (let offset = 0n; offset < count; offset += BigInt(CAMPAIGN_PAGE_SIZE)) {
+            campaigns.push(...this.getCampaigns(offset, filter));
+        }
+        return campaigns;
+    }
+
+    getCampaignDonorCount(campaignId: Uint): bigint {
+        return this.read('get-campaign-donor-count', [types.uint(campaignId)], expectUint);
+    }
+
+    // Largest contributors first, at most ten
+    getCampaignTopDonors(campaignId: Uint): TopDonor[] {
+        return this.read('get-campaign-top-donors', [types.uint(campaignId)], (v) => expectList(v, decodeTopDonor));
+    }
+
+    getCampaignBeneficiary(campaignId: Uint): string | undefined {
+        return this.read('get-campaign-beneficiary', [types.uint(campaignId)], (v) => expectOptional(v, expectPrincipal));
+    }
+
+    getCampaignSplits(campaignId: Uint): CampaignSplit[] {
+        return this.read('get-campaign-splits', [types.uint(campaignId)], (v) => expectList(v, decodeCampaignSplit));
+    }
+
+    getCampaignEscrow(campaignId: Uint): bigint {
+        return this.read('get-campaign-escrow', [types.uint(campaignId)], expectUint);
+    }
+
+    getMatchingPool(campaignId: Uint, sponsor: string): MatchingPool | undefined {
+        return this.read(
+            'get-matching-pool',
+            [types.uint(campaignId), types.principal(sponsor)],
+            (v) => expectOptional(v, decodeMatchingPool),
+        );
+    }
+
+    getCampaignSponsors(campaignId: Uint): string[] {
+        return this.read('get-campaign-sponsors', [types.uint(campaignId)], (v) => expectList(v, expectPrincipal));
+    }
+
+    getCampaignFunding(campaignId: Uint): CampaignFunding | undefined {
+        return this.read('get-campaign-funding', [types.uint(campaignId)], (v) => expectOptional(v, decodeCampaignFunding));
+    }
+
+    getPledge(pledgeId: Uint): Pledge | undefined {
+        return this.read('get-pledge', [types.uint(pledgeId)], (v) => expectOptional(v, decodePledge));
+    }
+
+    getPledgeCount(): bigint {
+        return this.read('get-pledge-count', [], expectUint);
+    }
+
+    isPledgeDue(pledgeId: Uint): boolean {
+        return this.read('is-pledge-due', [types.uint(pledgeId)], expectBool);
+    }
+
+    // Due pledges among one page of ids; pages may hold fewer than PLEDGE_PAGE_SIZE.
+    getDuePledges(offset: Uint = 0): bigint[] {
+        return this.read('get-due-pledges', [types.uint(offset)], (v) => expectList(v, expectUint));
+    }
+
+    // Walks every page of pledge ids.
+    getAllDuePledges(): bigint[] {
+        const count = this.getPledgeCount();
+        const pledges: bigint[] = [];
+        for (let offset = 0n; offset < count; offset += BigInt(PLEDGE_PAGE_SIZE)) {
+            pledges.push(...this.getDuePledges(offset));
+        }
+        return pledges;
+    }
+
+    getPaymentTokens(): string[] {
+        return this.read('get-payment-tokens', [], (v) => expectList(v, expectPrincipal));
+    }
+
+    isPaymentTokenApproved(token: string): boolean {
+        return this.read('is-payment-token-approved', [types.principal(token)], expectBool);
+    }
+
+    getCampaignTokenRaised(campaignId: Uint, token: string): bigint {
+        return this.read('get-campaign-token-raised', [types.uint(campaignId), types.principal(token)], expectUint);
+    }
+
+    // Every approved token the campaign has received, keyed by contract principal
+    getCampaignTokenFunding(campaignId: Uint): Record<string, bigint> {
+        const funding: Record<string, bigint> = {};
+        for (const token of this.getPaymentTokens()) {
+            const raised = this.getCampaignTokenRaised(campaignId, token);
+            if (raised > 0n) {
+                funding[token] = raised;
+            }
+        }
+        return funding;
+    }
+
+    getUserTokenDonations(user: string, campaignId: Uint, token: string): bigint {
+        return this.read(
+            'get-user-token-donations',
+            [types.principal(user), types.uint(campaignId), types.principal(token)],
+            expectUint,
+        );
+    }
+
+    getTotalTokenDonations(token: string): bigint {
+        return this.read('get-total-token-donations', [types.principal(token)], expectUint);
+    }
+
+    getRound(roundId: Uint): Round | undefined {
+        return this.read('get-round', [types.uint(roundId)], (v) => expectOptional(v, decodeRound));
+    }
+
+    getRoundCount(): bigint {
+        return this.read('get-round-count', [], expectUint);
+    }
+
+    // The latest round the campaign joined
+    getCampaignRound(campaignId: Uint): bigint | undefined {
+        return this.read('get-campaign-round', [types.uint(campaignId)], (v) => expectOptional(v, expectUint));
+    }
+
+    getRoundCampaign(roundId: Uint, campaignId: Uint): RoundCampaign {
+        return this.read('get-round-campaign', [types.uint(roundId), types.uint(campaignId)], decodeRoundCampaign);
+    }
+
+    getRoundContribution(roundId: Uint, campaignId: Uint, donor: string): bigint {
+        return this.read(
+            'get-round-contribution',
+            [types.uint(roundId), types.uint(campaignId), types.principal(donor)],
+            expectUint,
+        );
+    }
+
+    // The campaign's match if the round were finalized now
+    estimateRoundMatch(roundId: Uint, campaignId: Uint): bigint {
+        return this.read('estimate-round-match', [types.uint(roundId), types.uint(campaignId)], expectUint);
+    }
+
+    getRefundableDonation(user: string, campaignId: Uint): bigint {
+        return this.read('get-refundable-donation', [types.principal(user), types.uint(campaignId)], expectUint);
+    }
+
+    getListing(tokenId: Uint): Listing | undefined {
+        return this.read('get-listing', [types.uint(tokenId)], (v) => expectOptional(v, decodeListing));
+    }
+
+    getCreatorRoyalty(creator: string): bigint {
+        return this.read('get-creator-royalty', [types.principal(creator)], expectUint);
+    }
+
+    getRoyaltyBps(tokenId: Uint): bigint {
+        return this.read('get-royalty-bps', [types.uint(tokenId)], expectUint);
+    }
+
+    royaltyInfo(tokenId: Uint, salePrice: Uint): Response<RoyaltyInfo> {
+        const { result } = this.chain.callReadOnlyFn(
+            this.contract,
+            'royalty-info',
+            [types.uint(tokenId), types.uint(salePrice)],
+            this.caller,
+        );
+        return decodeResponse(result, decodeRoyaltyInfo);
+    }
+
+    getOffer(tokenId: Uint, bidder: string): Offer | undefined {
+        return this.read(
+            'get-offer',
+            [types.uint(tokenId), types.principal(bidder)],
+            (v) => expectOptional(v, (offer) => decodeOffer(offer, bidder)),
+        );
+    }
+
+    // Bidders whose offer on the token is still escrowed, in the order they bid
+    getTokenOfferBidders(tokenId: Uint): string[] {
+        return this.read('get-token-offer-bidders', [types.uint(tokenId)], (v) => expectList(v, expectPrincipal));
+    }
+
+    // Includes expired offers that have not been cancelled yet
+    getTokenOffers(tokenId: Uint): Offer[] {
+        return this.read('get-token-offers', [types.uint(tokenId)], (v) => expectList(v, (offer) => decodeOffer(offer)));
+    }
+
+    getUserDonationHistory(user: string, campaignId: Uint): DonationSummary | undefined {
+        return this.read(
+            'get-user-donation-history',
+            [types.principal(user), types.uint(campaignId)],
+            (v) => expectOptional(v, decodeDonationSummary),
+        );
+    }
+
+    getDonationRecord(user: string, campaignId: Uint, index: Uint): DonationRecord | undefined {
+        return this.read(
+            'get-donation-record',
+            [types.principal(user), types.uint(campaignId), types.uint(index)],
+            (v) => expectOptional(v, (record) => decodeDonationRecord(record, BigInt(index))),
+        );
+    }
+
+    getDonationRecords(user: string, campaignId: Uint, offset: Uint = 0): DonationRecord[] {
+        return this.read(
+            'get-donation-records',
+            [types.principal(user), types.uint(campaignId), types.uint(offset)],
+            (v) => expectList(v, (record) => decodeDonationRecord(record)),
+        );
+    }
+
+    // Walks every page of a user's donations to a campaign, oldest first.
+    getAllDonationRecords(user: string, campaignId: Uint): DonationRecord[] {
+        const count = this.getUserDonationHistory(user, campaignId)?.count ?? 0n;
+        const records: DonationRecord[] = [];
+        for (let offset = 0n; offset < count; offset += BigInt(DONATION_PAGE_SIZE)) {
+            records.push(...this.getDonationRecords(user, campaignId, offset));
+        }
+        return records;
+    }
+
+    getUserLifetimeDonations(user: string): bigint {
+        return this.read('get-user-lifetime-donations', [types.principal(user)], expectUint);
+    }
+
+    getCampaignNfts(campaignId: Uint): bigint[] | undefined {
+        return this.read(
+            'get-campaign-nfts',
+            [types.uint(campaignId)],
+            (v) => expectOptional(v, (list) => expectList(list, expectUint)),
+        );
+    }
+
+    getCampaignCustody(campaignId: Uint): bigint[] {
+        return this.read('get-campaign-custody', [types.uint(campaignId)], (v) => expectList(v, expectUint));
+    }
+
+    getNftCustody(tokenId: Uint): bigint | undefined {
+        return this.read('get-nft-custody', [types.uint(tokenId)], (v) => expectOptional(v, expectUint));
+    }
+
+    getNftDonation(tokenId: Uint): NftDonation | undefined {
+        return this.read('get-nft-donation', [types.uint(tokenId)], (v) => expectOptional(v, decodeNftDonation));
+    }
+
+    getCampaignPendingNfts(campaignId: Uint): bigint[] {
+        return this.read('get-campaign-pending-nfts', [types.uint(campaignId)], (v) => expectList(v, expectUint));
+    }
+
+    getRequiredAppraisals(): bigint {
+        return this.read('get-required-appraisals', [], expectUint);
+    }
+
+    getAuction(tokenId: Uint): Auction | undefined {
+        return this.read('get-auction', [types.uint(tokenId)], (v) => expectOptional(v, decodeAuction));
+    }
+
+    getUserCampaignStats(user: string, campaignId: Uint): CampaignStats | undefined {
+        return this.read(
+            'get-user-campaign-stats',
+            [types.principal(user), types.uint(campaignId)],
+            (v) => expectOptional(v, decodeCampaignStats),
+        );
+    }
+
+    getCampaignMilestone(campaignId: Uint, milestoneId: Uint): Milestone | undefined {
+        return this.read(
+            'get-campaign-milestone',
+            [types.uint(campaignId), types.uint(milestoneId)],
+            (v) => expectOptional(v, decodeMilestone),
+        );
+    }
+
+    getMilestoneClaim(campaignId: Uint, milestoneId: Uint, user: string): bigint | undefined {
+        return this.read(
+            'get-milestone-claim',
+            [types.uint(campaignId), types.uint(milestoneId), types.principal(user)],
+            (v) => expectOptional(v, expectUint),
+        );
+    }
+
+    getUserContribution(user: string, campaignId: Uint): bigint {
+        return this.read('get-user-contribution', [types.principal(user), types.uint(campaignId)], expectUint);
+    }
+
+    getLastBadgeId(): bigint {
+        return this.read('get-last-badge-id', [], expectUint);
+    }
+
+    getBadgeOwner(badgeId: Uint): string | undefined {
+        return this.read('get-badge-owner', [types.uint(badgeId)], (v) => expectOptional(v, expectPrincipal));
+    }
+
+    getBadgeMetadata(badgeId: Uint): Badge | undefined {
+        return this.read('get-badge-metadata', [types.uint(badgeId)], (v) => expectOptional(v, decodeBadge));
+    }
+
+    getHolderBadges(holder: string): bigint[] {
+        return this.read('get-holder-badges', [types.principal(holder)], (v) => expectList(v, expectUint));
+    }
+
+    getDonorBadge(campaignId: Uint, user: string): bigint | undefined {
+        return this.read(
+            'get-donor-badge',
+            [types.uint(campaignId), types.principal(user)],
+            (v) => expectOptional(v, expectUint),
+        );
+    }
+
+    getTotalDonations(): bigint {
+        return this.read('get-total-donations', [], expectUint);
+    }
+
+    getDonationPercentage(): bigint {
+        return this.read('get-donation-percentage', [], expectUint);
+    }
+
+    generateCampaignReport(campaignId: Uint): Response<CampaignReport> {
+        const { result } = this.chain.callReadOnlyFn(
+            this.contract,
+            'generate-campaign-report',
+            [types.uint(campaignId)],
+            this.caller,
+        );
+        return decodeResponse(result, decodeCampaignReport);
+    }
+}
@@ -0,0 +1,125 @@
+// Named error variants for the charity_plaform contract.
+// Mirrors the err-* constants at the top of contracts/charity_plaform.clar.
+
+import { parseClarityValue, expectUint } from './clarity.ts';
+
+export const CONTRACT_ERRORS = {
+    100: { name: 'err-owner-only', message: 'Only the contract owner can perform this action' },
+    101: { name: 'err-not-token-owner', message: 'Caller does not own this token' },
+    102: { name: 'err-listing-expired', message: 'The listing has expired' },
+    103: { name: 'err-invalid-price', message: 'Price must be greater than zero' },
+    104: { name: 'err-campaign-not-found', message: 'Campaign does not exist' },
+    105: { name: 'err-campaign-expired', message: 'Campaign deadline has passed' },
+    106: { name: 'err-insufficient-funds', message: 'Insufficient STX or token balance' },
+    107: { name: 'err-invalid-parameter', message: 'Campaign goal must be greater than zero' },
+    108: { name: 'err-paused', message: 'The contract is paused' },
+    109: { name: 'err-token-not-found', message: 'Token does not exist' },
+    110: { name: 'err-invalid-percentage', message: 'Percentage must be at most 100' },
+    111: { name: 'err-campaign-inactive', message: 'Campaign is a draft, has been ended or is closed' },
+    112: { name: 'err-not-listed', message: 'Token is not listed for sale' },
+    113: { name: 'err-invalid-amount', message: 'Amount must be greater than zero' },
+    114: { name: 'err-transfer-failed', message: 'STX, SIP-010 or NFT transfer, or an NFT mint, was rejected' },
+    115: { name: 'err-campaign-nfts-full', message: 'Campaign cannot hold any more NFTs' },
+    116: { name: 'err-donor-nfts-full', message: 'Donor cannot donate any more NFTs to this campaign' },
+    117: { name: 'err-milestone-not-found', message: 'Milestone does not exist' },
+    118: { name: 'err-no-participation', message: 'Caller has not donated STX, tokens or NFTs to this campaign' },
+    119: { name: 'err-milestone-reached', message: 'Caller has already claimed this milestone reward' },
+    120: { name: 'err-milestone-target-not-met', message: 'Contribution or campaign total is below the milestone target' },
+    121: { name: 'err-rewards-full', message: 'Caller cannot hold any more badges' },
+    122: { name: 'err-not-in-custody', message: 'Token is not held in escrow for this campaign' },
+    123: { name: 'err-not-campaign-operator', message: 'Caller cannot operate this campaign' },
+    124: { name: 'err-invalid-splits', message: 'Split shares must be non-zero and total at most 10000 basis points' },
+    125: { name: 'err-not-all-or-nothing', message: 'Campaign does not hold donations in escrow' },
+    126: { name: 'err-campaign-in-progress', message: 'Campaign has not reached its deadline or been ended' },
+    127: { name: 'err-goal-not-met', message: 'Campaign had not reached its goal when it finished' },
+    128: { name: 'err-goal-met', message: 'Campaign had reached its goal when it finished, so donations are not refundable' },
+    129: { name: 'err-nothing-to-refund', message: 'Caller has no escrowed donation in this campaign' },
+    130: { name: 'err-nothing-to-withdraw', message: 'Campaign escrow is empty' },
+    131: { name: 'err-not-beneficiary', message: 'Caller is neither the beneficiary nor the campaign operator' },
+    132: { name: 'err-invalid-duration', message: 'Listing or offer duration must be greater than zero' },
+    133: { name: 'err-offer-on-own-token', message: 'Caller already owns this token' },
+    134: { name: 'err-offer-exists', message: 'Caller already has an open offer on this token' },
+    135: { name: 'err-offers-full', message: 'Token cannot hold any more open offers' },
+    136: { name: 'err-offer-not-found', message: 'No open offer from this bidder on the token' },
+    137: { name: 'err-offer-expired', message: 'The offer has expired' },
+    138: { name: 'err-auction-not-found', message: 'No auction exists for this token' },
+    139: { name: 'err-auction-active', message: 'Token is being auctioned' },
+    140: { name: 'err-invalid-auction-window', message: 'Auction must start no earlier than now and end after it starts' },
+    141: { name: 'err-auction-not-started', message: 'Auction has not started yet' },
+    142: { name: 'err-auction-ended', message: 'Auction bidding has closed' },
+    143: { name: 'err-bid-too-low', message: 'Bid is below the reserve or the minimum increment' },
+    144: { name: 'err-auction-not-ended', message: 'Auction is still taking bids' },
+    145: { name: 'err-auction-settled', message: 'Auction has already been settled' },
+    146: { name: 'err-not-creator', message: 'Caller did not mint this token' },
+    147: { name: 'err-invalid-royalty', message: 'Royalty plus the charity share exceeds 10000 basis points' },
+    148: { name: 'err-badge-claimed', message: 'Caller already holds the donor badge for this campaign' },
+    149: { name: 'err-missing-role', message: 'Caller lacks the role this action requires' },
+    150: { name: 'err-invalid-role', message: 'No role exists with this id' },
+    151: { name: 'err-not-pending-owner', message: 'Caller has not been offered ownership' },
+    152: { name: 'err-not-signer', message: 'Caller is not a governance signer' },
+    153: { name: 'err-proposal-not-found', message: 'Proposal does not exist' },
+    154: { name: 'err-already-approved', message: 'Caller has already approved this proposal' },
+    155: { name: 'err-proposal-closed', message: 'Proposal was executed or cancelled' },
+    156: { name: 'err-not-approved', message: 'Current signers have not approved the proposal up to the threshold' },
+    157: { name: 'err-timelock-active', message: 'Proposal timelock has not elapsed' },
+    158: { name: 'err-invalid-proposal', message: 'Proposal action or value is invalid' },
+    159: { name: 'err-proposals-full', message: 'Too many proposals are pending' },
+    160: { name: 'err-invalid-transition', message: 'Campaign status does not allow this change' },
+    161: { name: 'err-campaign-paused', message: 'Campaign is paused' },
+    162: { name: 'err-escrow-not-empty', message: 'Campaign escrow still holds donations' },
+    163: { name: 'err-not-pending', message: 'Token has no NFT donation awaiting a value' },
+    164: { name: 'err-already-appraised', message: 'Caller has already appraised this donation' },
+    165: { name: 'err-self-appraisal', message: 'Donors cannot appraise their own NFT donations' },
+    166: { name: 'err-pool-exists', message: 'Caller already sponsors a matching pool for this campaign' },
+    167: { name: 'err-pool-not-found', message: 'Caller has no matching pool for this campaign' },
+    168: { name: 'err-sponsors-full', message: 'Campaign holds the maximum number of matching pools' },
+    169: { name: 'err-pool-reclaimed', message: 'Matching pool has already been returned to its sponsor' },
+    170: { name: 'err-pledge-not-found', message: 'Pledge does not exist' },
+    171: { name: 'err-not-pledge-donor', message: 'Caller did not make this pledge' },
+    172: { name: 'err-pledge-closed', message: 'Pledge was cancelled or has released its whole deposit' },
+    173: { name: 'err-pledge-not-due', message: 'Pledge is not due for release yet' },
+    174: { name: 'err-token-not-approved', message: 'Token is not an approved payment token' },
+    175: { name: 'err-wrong-payment-token', message: 'Listing is priced in another asset' },
+    176: { name: 'err-payment-tokens-full', message: 'Payment token allowlist is full' },
+    177: { name: 'err-stx-only', message: 'All-or-nothing campaigns only accept STX' },
+    178: { name: 'err-round-not-found', message: 'Funding round does not exist' },
+    179: { name: 'err-invalid-round-window', message: 'Round must start no earlier than now and end after it starts' },
+    180: { name: 'err-round-ineligible', message: 'Campaign is all-or-nothing or already in an open round' },
+    181: { name: 'err-round-not-ended', message: 'Round is still taking contributions' },
+    182: { name: 'err-round-finalized', message: 'Round has already been finalized' },
+    183: { name: 'err-invalid-ratio', message: 'Matching ratio must be greater than zero' },
+    184: { name: 'err-empty-round', message: 'Round must list at least one campaign' },
+    185: { name: 'err-invalid-appraisal-count', message: 'Required appraisals must be 1 to 10' },
+    186: { name: 'err-appraisers-full', message: 'Donation already has the maximum number of appraisals' },
+    187: { name: 'err-deposit-too-small', message: 'Pledge deposit must cover at least one release' },
+    188: { name: 'err-invalid-increment', message: 'Auction bid increment must be greater than zero' },
+    189: { name: 'err-invalid-milestone-target', message: 'Milestone target amount must be greater than zero' },
+} as const;
+
+export type ContractErrorCode = keyof typeof CONTRACT_ERRORS;
+export type ContractErrorName = typeof CONTRACT_ERRORS[ContractErrorCode]['name'];
+
+export interface ContractError {
+    code: bigint;
+    name: ContractErrorName | 'unknown';
+    message: string;
+}
+
+export function decodeError(code: bigint): ContractError {
+    const known = CONTRACT_ERRORS[Number(code) as ContractErrorCode];
+    if (!known) {
+        return { code, name: 'unknown', message: `Unknown contract error u${code}` };
+    }
+    return { code, name: known.name, message: known.message };
+}
+
+export function errorCode(name: ContractErrorName): bigint {
+    const entry = Object.entries(CONTRACT_ERRORS).find(([, error]) => error.name === name)!;
+    return BigInt(entry[0]);
+}
+
+// Returns the named error of a failed receipt, or undefined when it succeeded.
+export function receiptError(receipt: { result: string }): ContractErrorName | 'unknown' | undefined {
+    const value = parseClarityValue(receipt.result);
+    return value.type === 'err' ? decodeError(expectUint(value.value)).name : undefined;
+}
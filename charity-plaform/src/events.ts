@@ -0,0 +1,443 @@
+// Typed print events emitted by the charity_plaform contract.
+// Every event is a tuple whose `topic` names the state change; see the
+// `print` calls in contracts/charity_plaform.clar.
+
+import {
+    ClarityValue,
+    parseClarityValue,
+    expectBool,
+    expectList,
+    expectOptional,
+    expectPrincipal,
+    expectString,
+    expectTuple,
+    expectUint,
+} from './clarity.ts';
+import {
+    CONTRACT_NAME,
+    CampaignSplit,
+    CampaignStatus,
+    PROPOSAL_ACTIONS,
+    ProposalAction,
+    ROLES,
+    Role,
+    decodeCampaignSplit,
+    decodeCampaignStatus,
+} from './client.ts';
+
+export type ContractEvent =
+    | { topic: 'nft-minted'; tokenId: bigint; creator: string; category: string }
+    | { topic: 'nft-transferred'; tokenId: bigint; sender: string; recipient: string }
+    | {
+        topic: 'nft-listed';
+        tokenId: bigint;
+        seller: string;
+        price: bigint;
+        expiry: bigint;
+        campaignId?: bigint;
+        // SIP-010 contract the price is in, undefined for STX
+        paymentToken?: string;
+    }
+    | { topic: 'listing-updated'; tokenId: bigint; seller: string; price: bigint }
+    | { topic: 'token-royalty-set'; tokenId: bigint; creator: string; bps: bigint }
+    | { topic: 'creator-royalty-set'; creator: string; bps: bigint }
+    // The amount is escrowed until the offer is cancelled or accepted
+    | { topic: 'offer-made'; tokenId: bigint; bidder: string; amount: bigint; expiry: bigint }
+    | { topic: 'offer-cancelled'; tokenId: bigint; bidder: string; amount: bigint }
+    // Followed by the nft-sold the offer settles
+    | { topic: 'offer-accepted'; tokenId: bigint; bidder: string; amount: bigint }
+    // The beaten bid, if any, is refunded in the same transaction
+    | { topic: 'bid-placed'; tokenId: bigint; bidder: string; amount: bigint }
+    | { topic: 'nft-unlisted'; tokenId: bigint; seller: string }
+    // Also withdraws any fixed-price listing of the token
+    | { topic: 'auction-created'; tokenId: bigint; campaignId: bigint; startBlock: bigint; endBlock: bigint; reserve: bigint }
+    | {
+        topic: 'nft-sold';
+        tokenId: bigint;
+        seller: string;
+        buyer: string;
+        price: bigint;
+        royalty: bigint;
+        donation: bigint;
+        // Campaign that received the donation, undefined when it went to the charity address
+        campaignId?: bigint;
+        paymentToken?: string;
+    }
+    | {
+        topic: 'campaign-created';
+        campaignId: bigint;
+        manager: string;
+        beneficiary: string;
+        goal: bigint;
+        deadline: bigint;
+        status: CampaignStatus;
+    }
+    | { topic: 'campaign-status-changed'; campaignId: bigint; status: CampaignStatus }
+    | { topic: 'campaign-deadline-extended'; campaignId: bigint; deadline: bigint }
+    | { topic: 'campaign-splits-set'; campaignId: bigint; splits: CampaignSplit[]; sender: string }
+    | { topic: 'milestone-added'; campaignId: bigint; milestoneId: bigint; targetAmount: bigint; campaignWide: boolean }
+    // Releases an all-or-nothing campaign's escrow once it has succeeded
+    | { topic: 'campaign-funds-withdrawn'; campaignId: bigint; beneficiary: string; amount: bigint }
+    | { topic: 'refund-claimed'; campaignId: bigint; donor: string; amount: bigint }
+    // raised is the campaign's total after the credit
+    | { topic: 'campaign-credited'; campaignId: bigint; amount: bigint; raised: bigint }
+    | { topic: 'campaign-donation'; campaignId: bigint; donor: string; amount: bigint; memo?: string }
+    | { topic: 'campaign-token-donation'; campaignId: bigint; donor: string; token: string; amount: bigint }
+    // raised is the campaign's total in this token after the credit
+    | { topic: 'campaign-token-credited'; campaignId: bigint; token: string; amount: bigint; raised: bigint }
+    // The donation is pending until nft-donation-credited values it
+    | { topic: 'nft-donated'; campaignId: bigint; tokenId: bigint; donor: string }
+    | { topic: 'nft-appraised'; tokenId: bigint; appraiser: string; value: bigint }
+    // value is the donation's total; a sale above its appraisal credits it again
+    | { topic: 'nft-donation-credited'; tokenId: bigint; campaignId: bigint; donor: string; value: bigint }
+    // A pending NFT donation left custody without being valued
+    | { topic: 'nft-donation-withdrawn'; tokenId: bigint; campaignId: bigint }
+    | { topic: 'matching-pool-funded'; campaignId: bigint; sponsor: string; ratio: bigint; amount: bigint }
+    | { topic: 'donation-matched'; campaignId: bigint; sponsor: string; donor: string; amount: bigint }
+    // amount returns the unmatched deposit, plus the matched part if an all-or-nothing campaign failed
+    | { topic: 'matching-reclaimed'; campaignId: bigint; sponsor: string; amount: bigint }
+    | {
+        topic: 'pledge-created';
+        pledgeId: bigint;
+        donor: string;
+        campaignId: bigint;
+        amount: bigint;
+        interval: bigint;
+        deposit: bigint;
+    }
+    // Followed by the campaign-donation the release books for the donor
+    | { topic: 'pledge-processed'; pledgeId: bigint; amount: bigint; balance: bigint }
+    | { topic: 'pledge-cancelled'; pledgeId: bigint; refund: bigint }
+    | {
+        topic: 'round-created';
+        roundId: bigint;
+        sponsor: string;
+        pot: bigint;
+        startBlock: bigint;
+        endBlock: bigint;
+        campaignIds: bigint[];
+    }
+    // Precedes the campaign-donation it counts towards the round
+    | { topic: 'round-contribution'; roundId: bigint; campaignId: bigint; donor: string; amount: bigint }
+    | { topic: 'round-match-paid'; roundId: bigint; campaignId: bigint; amount: bigint }
+    // refund is what went back to the sponsor
+    | { topic: 'round-finalized'; roundId: bigint; paid: bigint; refund: bigint }
+    | { topic: 'badge-awarded'; badgeId: bigint; campaignId: bigint; milestoneId?: bigint; recipient: string }
+    | { topic: 'milestone-claimed'; campaignId: bigint; milestoneId: bigint; claimant: string; badgeId: bigint }
+    | { topic: 'role-granted' | 'role-revoked'; role: Role; account: string; sender: string }
+    | { topic: 'ownership-offered'; owner: string; pendingOwner: string }
+    | { topic: 'ownership-transferred'; previousOwner: string; owner: string }
+    // Followed by the proposer's proposal-approved
+    | {
+        topic: 'proposal-created';
+        proposalId: bigint;
+        proposer: string;
+        action: ProposalAction;
+        value: bigint;
+        target?: string;
+    }
+    // approvals is the count after this one; executableAt is set once the threshold is reached
+    | { topic: 'proposal-approved'; proposalId: bigint; signer: string; approvals: bigint; executableAt?: bigint }
+    | { topic: 'proposal-cancelled'; proposalId: bigint; sender: string }
+    | { topic: 'proposal-executed'; proposalId: bigint; action: ProposalAction; value: bigint; target?: string }
+    | { topic: 'payment-token-set'; token: string; approved: boolean; sender: string }
+    | { topic: 'required-appraisals-set'; count: bigint; sender: string }
+    | { topic: 'donor-badge-uri-set'; uri: string; sender: string }
+    | { topic: 'pause-toggled'; paused: boolean; sender: string };
+
+export type EventTopic = ContractEvent['topic'];
+
+// The subset of a Clarinet receipt the decoder reads
+export interface EventReceipt {
+    events: {
+        type: string;
+        contract_event?: { contract_identifier: string; topic: string; value: string };
+    }[];
+}
+
+function lookup<K extends string>(ids: Record<K, number>, id: bigint, kind: string): K {
+    const name = (Object.keys(ids) as K[]).find((key) => ids[key] === Number(id));
+    if (!name) {
+        throw new TypeError(`Unknown ${kind} u${id}`);
+    }
+    return name;
+}
+
+function optionalField<K extends string, T>(key: K, value: T | undefined): { [P in K]?: T } {
+    return (value === undefined ? {} : { [key]: value }) as { [P in K]?: T };
+}
+
+export function decodeEvent(value: ClarityValue): ContractEvent {
+    const tuple = expectTuple(value);
+    const topic = expectString(tuple['topic']);
+    const uint = (key: string) => expectUint(tuple[key]);
+    const principal = (key: string) => expectPrincipal(tuple[key]);
+    switch (topic) {
+        case 'nft-minted':
+            return { topic, tokenId: uint('token-id'), creator: principal('creator'), category: expectString(tuple['category']) };
+        case 'nft-transferred':
+            return { topic, tokenId: uint('token-id'), sender: principal('sender'), recipient: principal('recipient') };
+        case 'nft-listed':
+            return {
+                topic,
+                tokenId: uint('token-id'),
+                seller: principal('seller'),
+                price: uint('price'),
+                expiry: uint('expiry'),
+                ...optionalField('campaignId', expectOptional(tuple['campaign-id'], expectUint)),
+                ...optionalField('paymentToken', expectOptional(tuple['payment-token'], expectPrincipal)),
+            };
+        case 'listing-updated':
+            return { topic, tokenId: uint('token-id'), seller: principal('seller'), price: uint('price') };
+        case 'nft-unlisted':
+            return { topic, tokenId: uint('token-id'), seller: principal('seller') };
+        case 'token-royalty-set':
+            return { topic, tokenId: uint('token-id'), creator: principal('creator'), bps: uint('bps') };
+        case 'creator-royalty-set':
+            return { topic, creator: principal('creator'), bps: uint('bps') };
+        case 'offer-made':
+            return {
+                topic,
+                tokenId: uint('token-id'),
+                bidder: principal('bidder'),
+                amount: uint('amount'),
+                expiry: uint('expiry'),
+            };
+        case 'offer-cancelled':
+        case 'offer-accepted':
+        case 'bid-placed':
+            return { topic, tokenId: uint('token-id'), bidder: principal('bidder'), amount: uint('amount') };
+        case 'auction-created':
+            return {
+                topic,
+                tokenId: uint('token-id'),
+                campaignId: uint('campaign-id'),
+                startBlock: uint('start-block'),
+                endBlock: uint('end-block'),
+                reserve: uint('reserve'),
+            };
+        case 'nft-sold':
+            return {
+                topic,
+                tokenId: uint('token-id'),
+                seller: principal('seller'),
+                buyer: principal('buyer'),
+                price: uint('price'),
+                royalty: uint('royalty'),
+                donation: uint('donation'),
+                ...optionalField('campaignId', expectOptional(tuple['campaign-id'], expectUint)),
+                ...optionalField('paymentToken', expectOptional(tuple['payment-token'], expectPrincipal)),
+            };
+        case 'campaign-created':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                manager: principal('manager'),
+                beneficiary: principal('beneficiary'),
+                goal: uint('goal'),
+                deadline: uint('deadline'),
+                status: decodeCampaignStatus(tuple['status']),
+            };
+        case 'campaign-status-changed':
+            return { topic, campaignId: uint('campaign-id'), status: decodeCampaignStatus(tuple['status']) };
+        case 'campaign-deadline-extended':
+            return { topic, campaignId: uint('campaign-id'), deadline: uint('deadline') };
+        case 'campaign-splits-set':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                splits: expectList(tuple['splits'], decodeCampaignSplit),
+                sender: principal('sender'),
+            };
+        case 'milestone-added':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                milestoneId: uint('milestone-id'),
+                targetAmount: uint('target-amount'),
+                campaignWide: expectBool(tuple['campaign-wide']),
+            };
+        case 'campaign-funds-withdrawn':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                beneficiary: principal('beneficiary'),
+                amount: uint('amount'),
+            };
+        case 'refund-claimed':
+            return { topic, campaignId: uint('campaign-id'), donor: principal('donor'), amount: uint('amount') };
+        case 'campaign-credited':
+            return { topic, campaignId: uint('campaign-id'), amount: uint('amount'), raised: uint('raised') };
+        case 'campaign-donation':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                donor: principal('donor'),
+                amount: uint('amount'),
+                ...optionalField('memo', expectOptional(tuple['memo'], expectString)),
+            };
+        case 'campaign-token-donation':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                donor: principal('donor'),
+                token: principal('token'),
+                amount: uint('amount'),
+            };
+        case 'campaign-token-credited':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                token: principal('token'),
+                amount: uint('amount'),
+                raised: uint('raised'),
+            };
+        case 'nft-donated':
+            return { topic, campaignId: uint('campaign-id'), tokenId: uint('token-id'), donor: principal('donor') };
+        case 'nft-appraised':
+            return { topic, tokenId: uint('token-id'), appraiser: principal('appraiser'), value: uint('value') };
+        case 'nft-donation-credited':
+            return {
+                topic,
+                tokenId: uint('token-id'),
+                campaignId: uint('campaign-id'),
+                donor: principal('donor'),
+                value: uint('value'),
+            };
+        case 'nft-donation-withdrawn':
+            return { topic, tokenId: uint('token-id'), campaignId: uint('campaign-id') };
+        case 'matching-pool-funded':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                sponsor: principal('sponsor'),
+                ratio: uint('ratio'),
+                amount: uint('amount'),
+            };
+        case 'donation-matched':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                sponsor: principal('sponsor'),
+                donor: principal('donor'),
+                amount: uint('amount'),
+            };
+        case 'matching-reclaimed':
+            return { topic, campaignId: uint('campaign-id'), sponsor: principal('sponsor'), amount: uint('amount') };
+        case 'pledge-created':
+            return {
+                topic,
+                pledgeId: uint('pledge-id'),
+                donor: principal('donor'),
+                campaignId: uint('campaign-id'),
+                amount: uint('amount'),
+                interval: uint('interval'),
+                deposit: uint('deposit'),
+            };
+        case 'pledge-processed':
+            return { topic, pledgeId: uint('pledge-id'), amount: uint('amount'), balance: uint('balance') };
+        case 'pledge-cancelled':
+            return { topic, pledgeId: uint('pledge-id'), refund: uint('refund') };
+        case 'round-created':
+            return {
+                topic,
+                roundId: uint('round-id'),
+                sponsor: principal('sponsor'),
+                pot: uint('pot'),
+                startBlock: uint('start-block'),
+                endBlock: uint('end-block'),
+                campaignIds: expectList(tuple['campaigns'], expectUint),
+            };
+        case 'round-contribution':
+            return {
+                topic,
+                roundId: uint('round-id'),
+                campaignId: uint('campaign-id'),
+                donor: principal('donor'),
+                amount: uint('amount'),
+            };
+        case 'round-match-paid':
+            return { topic, roundId: uint('round-id'), campaignId: uint('campaign-id'), amount: uint('amount') };
+        case 'round-finalized':
+            return { topic, roundId: uint('round-id'), paid: uint('paid'), refund: uint('refund') };
+        case 'badge-awarded':
+            return {
+                topic,
+                badgeId: uint('badge-id'),
+                campaignId: uint('campaign-id'),
+                ...optionalField('milestoneId', expectOptional(tuple['milestone-id'], expectUint)),
+                recipient: principal('recipient'),
+            };
+        case 'milestone-claimed':
+            return {
+                topic,
+                campaignId: uint('campaign-id'),
+                milestoneId: uint('milestone-id'),
+                claimant: principal('claimant'),
+                badgeId: uint('badge-id'),
+            };
+        case 'role-granted':
+        case 'role-revoked':
+            return {
+                topic,
+                role: lookup(ROLES, uint('role'), 'role'),
+                account: principal('account'),
+                sender: principal('sender'),
+            };
+        case 'ownership-offered':
+            return { topic, owner: principal('owner'), pendingOwner: principal('pending-owner') };
+        case 'ownership-transferred':
+            return { topic, previousOwner: principal('previous-owner'), owner: principal('owner') };
+        case 'proposal-created':
+            return {
+                topic,
+                proposalId: uint('proposal-id'),
+                proposer: principal('proposer'),
+                action: lookup(PROPOSAL_ACTIONS, uint('action'), 'proposal action'),
+                value: uint('value'),
+                ...optionalField('target', expectOptional(tuple['target'], expectPrincipal)),
+            };
+        case 'proposal-approved':
+            return {
+                topic,
+                proposalId: uint('proposal-id'),
+                signer: principal('signer'),
+                approvals: uint('approvals'),
+                ...optionalField('executableAt', expectOptional(tuple['executable-at'], expectUint)),
+            };
+        case 'proposal-cancelled':
+            return { topic, proposalId: uint('proposal-id'), sender: principal('sender') };
+        case 'proposal-executed':
+            return {
+                topic,
+                proposalId: uint('proposal-id'),
+                action: lookup(PROPOSAL_ACTIONS, uint('action'), 'proposal action'),
+                value: uint('value'),
+                ...optionalField('target', expectOptional(tuple['target'], expectPrincipal)),
+            };
+        case 'payment-token-set':
+            return { topic, token: principal('token'), approved: expectBool(tuple['approved']), sender: principal('sender') };
+        case 'required-appraisals-set':
+            return { topic, count: uint('count'), sender: principal('sender') };
+        case 'donor-badge-uri-set':
+            return { topic, uri: expectString(tuple['uri']), sender: principal('sender') };
+        case 'pause-toggled':
+            return { topic, paused: expectBool(tuple['paused']), sender: principal('sender') };
+        default:
+            throw new TypeError(`Unknown event topic "${topic}"`);
+    }
+}
+
+// Decodes the print events a receipt's contract emitted, in emission order.
+// Prints from other contracts are skipped.
+export function decodeReceiptEvents(receipt: EventReceipt, contract: string = CONTRACT_NAME): ContractEvent[] {
+    return receipt.events
+        .filter((event) => event.type === 'contract_event' && event.contract_event?.topic === 'print')
+        .filter((event) => event.contract_event!.contract_identifier.split('.')[1] === contract)
+        .map((event) => decodeEvent(parseClarityValue(event.contract_event!.value)));
+}
+
+// Events of every receipt in a block, in transaction order.
+export function decodeBlockEvents(block: { receipts: EventReceipt[] }, contract: string = CONTRACT_NAME): ContractEvent[] {
+    return block.receipts.flatMap((receipt) => decodeReceiptEvents(receipt, contract));
+}
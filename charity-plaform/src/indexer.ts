@@ -0,0 +1,602 @@
+// Off-chain indexer for the charity_plaform contract.
+// Blocks of decoded print events are journaled in a store and projected
+// into in-memory tables: campaigns, donations, listings, sales, offers,
+// bids, proposals, milestones and ownership history. Rolling back truncates the journal and replays what
+// is left, so the tables always equal a fresh replay of the kept blocks.
+
+import { CampaignSplit, CampaignStatus, ProposalAction } from './client.ts';
+import { ContractEvent, EventReceipt, decodeBlockEvents } from './events.ts';
+
+export interface IndexedBlock {
+    height: number;
+    events: ContractEvent[];
+}
+
+export interface IndexStore {
+    // Every journaled block, oldest first
+    load(): IndexedBlock[];
+    append(block: IndexedBlock): void;
+    // Drops every block above height
+    truncate(height: number): void;
+}
+
+export interface CampaignRow {
+    id: bigint;
+    manager: string;
+    beneficiary: string;
+    goal: bigint;
+    // Includes matched and roundMatched, the parts matching pools and funding rounds paid
+    raised: bigint;
+    matched: bigint;
+    roundMatched: bigint;
+    // All-or-nothing escrow paid out to the beneficiary, and refunded to donors
+    withdrawn: bigint;
+    refunded: bigint;
+    splits: CampaignSplit[];
+    deadline: bigint;
+    // Stored status; see campaignStatusAt for the one in effect at a height
+    status: CampaignStatus;
+    createdAt: number;
+}
+
+export interface DonationRow {
+    campaignId: bigint;
+    donor: string;
+    amount: bigint;
+    memo?: string;
+    // Set for NFT donations, whose amount is their credited value
+    tokenId?: bigint;
+    // NFT donations credit nothing until they are valued
+    pending?: boolean;
+    // SIP-010 contract of a payment token donation, whose amount is in that token
+    token?: string;
+    height: number;
+}
+
+export interface ListingRow {
+    tokenId: bigint;
+    seller: string;
+    price: bigint;
+    expiry: bigint;
+    campaignId?: bigint;
+    // SIP-010 contract the price is in, undefined for STX
+    paymentToken?: string;
+    listedAt: number;
+}
+
+export interface SaleRow {
+    tokenId: bigint;
+    seller: string;
+    buyer: string;
+    price: bigint;
+    royalty: bigint;
+    donation: bigint;
+    campaignId?: bigint;
+    paymentToken?: string;
+    height: number;
+}
+
+export interface OfferRow {
+    tokenId: bigint;
+    bidder: string;
+    amount: bigint;
+    expiry: bigint;
+    madeAt: number;
+}
+
+export interface BidRow {
+    tokenId: bigint;
+    bidder: string;
+    amount: bigint;
+    height: number;
+}
+
+export interface ProposalRow {
+    id: bigint;
+    proposer: string;
+    action: ProposalAction;
+    value: bigint;
+    target?: string;
+    // Signers in approval order, the proposer first
+    approvers: string[];
+    executableAt?: bigint;
+    status: 'pending' | 'executed' | 'cancelled';
+    createdAt: number;
+}
+
+export interface MilestoneRow {
+    campaignId: bigint;
+    milestoneId: bigint;
+    targetAmount: bigint;
+    campaignWide: boolean;
+    claims: bigint;
+}
+
+export interface OwnershipRow {
+    tokenId: bigint;
+    owner: string;
+    height: number;
+}
+
+// Mirrors derive-status in the contract: active and paused campaigns settle
+// on their goal once the deadline has passed.
+export function campaignStatusAt(campaign: CampaignRow, height: number): CampaignStatus {
+    if ((campaign.status === 'active' || campaign.status === 'paused') && BigInt(height) > campaign.deadline) {
+        return campaign.raised >= campaign.goal ? 'succeeded' : 'failed';
+    }
+    return campaign.status;
+}
+
+export function blockFromClarinet(block: { height: number; receipts: EventReceipt[] }, contract?: string): IndexedBlock {
+    return { height: block.height, events: decodeBlockEvents(block, contract) };
+}
+
+// JSON has no bigint, so bigints are written as {"$bigint": "<digits>"}.
+// They are converted up front because a BigInt toJSON, where one is
+// installed, would run before any JSON.stringify replacer.
+function encodeBigints(value: unknown): unknown {
+    if (typeof value === 'bigint') {
+        return { $bigint: value.toString() };
+    }
+    if (Array.isArray(value)) {
+        return value.map(encodeBigints);
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, encodeBigints(inner)]));
+    }
+    return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+    if (value !== null && typeof value === 'object' && '$bigint' in value) {
+        return BigInt((value as { $bigint: string }).$bigint);
+    }
+    return value;
+}
+
+function serialize(block: IndexedBlock): string {
+    return JSON.stringify(encodeBigints(block)) + '\n';
+}
+
+export class MemoryStore implements IndexStore {
+    private blocks: IndexedBlock[] = [];
+
+    load(): IndexedBlock[] {
+        return [...this.blocks];
+    }
+
+    append(block: IndexedBlock) {
+        this.blocks.push(block);
+    }
+
+    truncate(height: number) {
+        this.blocks = this.blocks.filter((block) => block.height <= height);
+    }
+}
+
+// The file operations FileStore needs
+export interface JournalFs {
+    // undefined when the file does not exist yet
+    read(path: string): string | undefined;
+    write(path: string, text: string, options: { append: boolean }): void;
+}
+
+// Deno's file system; needs --allow-read and --allow-write for the journal
+export const denoFs: JournalFs = {
+    read(path) {
+        try {
+            return Deno.readTextFileSync(path);
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                return undefined;
+            }
+            throw error;
+        }
+    },
+    write(path, text, options) {
+        Deno.writeTextFileSync(path, text, options);
+    },
+};
+
+// Journals one JSON line per block. Appends are incremental; a rollback
+// rewrites the file with the blocks it keeps.
+export class FileStore implements IndexStore {
+    constructor(readonly path: string, private readonly fs: JournalFs = denoFs) {}
+
+    load(): IndexedBlock[] {
+        return (this.fs.read(this.path) ?? '').split('\n')
+            .filter((line) => line.trim() !== '')
+            .map((line) => JSON.parse(line, reviver) as IndexedBlock);
+    }
+
+    append(block: IndexedBlock) {
+        this.fs.write(this.path, serialize(block), { append: true });
+    }
+
+    truncate(height: number) {
+        const kept = this.load().filter((block) => block.height <= height);
+        this.fs.write(this.path, kept.map(serialize).join(''), { append: false });
+    }
+}
+
+export class CharityIndexer {
+    private campaignTable = new Map<bigint, CampaignRow>();
+    private donationTable: DonationRow[] = [];
+    private listingTable = new Map<bigint, ListingRow>();
+    private saleTable: SaleRow[] = [];
+    private ownershipTable: OwnershipRow[] = [];
+    private offerTable = new Map<string, OfferRow>();
+    private bidTable: BidRow[] = [];
+    private proposalTable = new Map<bigint, ProposalRow>();
+    private milestoneTable = new Map<string, MilestoneRow>();
+    private tokenRoyaltyTable = new Map<bigint, bigint>();
+    private creatorRoyaltyTable = new Map<string, bigint>();
+    private requiredAppraisalCount = 1n;
+    private tipHeight: number | undefined;
+
+    constructor(private readonly store: IndexStore) {
+        this.rebuild();
+    }
+
+    // Height of the last indexed block, undefined before the first one
+    get tip(): number | undefined {
+        return this.tipHeight;
+    }
+
+    // Indexes a block. A block at or below the tip replaces the indexed
+    // blocks from its height on, as after a reorg.
+    ingest(block: IndexedBlock) {
+        if (this.tipHeight !== undefined && block.height <= this.tipHeight) {
+            this.rollback(block.height - 1);
+        }
+        this.store.append(block);
+        this.apply(block);
+    }
+
+    // Forgets every block above height
+    rollback(height: number) {
+        this.store.truncate(height);
+        this.rebuild();
+    }
+
+    campaigns(): CampaignRow[] {
+        return [...this.campaignTable.values()];
+    }
+
+    campaign(id: bigint): CampaignRow | undefined {
+        return this.campaignTable.get(id);
+    }
+
+    donations(filter: { campaignId?: bigint; donor?: string } = {}): DonationRow[] {
+        return this.donationTable.filter((row) =>
+            (filter.campaignId === undefined || row.campaignId === filter.campaignId) &&
+            (filter.donor === undefined || row.donor === filter.donor));
+    }
+
+    // Listings still recorded on chain; pass a height to leave out expired ones.
+    listings(height?: number): ListingRow[] {
+        const rows = [...this.listingTable.values()];
+        return height === undefined ? rows : rows.filter((row) => row.expiry >= BigInt(height));
+    }
+
+    listing(tokenId: bigint): ListingRow | undefined {
+        return this.listingTable.get(tokenId);
+    }
+
+    sales(filter: { tokenId?: bigint; campaignId?: bigint } = {}): SaleRow[] {
+        return this.saleTable.filter((row) =>
+            (filter.tokenId === undefined || row.tokenId === filter.tokenId) &&
+            (filter.campaignId === undefined || row.campaignId === filter.campaignId));
+    }
+
+    // Every owner the token has had, the minter first
+    ownershipHistory(tokenId: bigint): OwnershipRow[] {
+        return this.ownershipTable.filter((row) => row.tokenId === tokenId);
+    }
+
+    ownerOf(tokenId: bigint): string | undefined {
+        const history = this.ownershipHistory(tokenId);
+        return history[history.length - 1]?.owner;
+    }
+
+    // Offers still escrowed, expired ones included until they are cancelled
+    offers(tokenId?: bigint): OfferRow[] {
+        const rows = [...this.offerTable.values()];
+        return tokenId === undefined ? rows : rows.filter((row) => row.tokenId === tokenId);
+    }
+
+    // Every bid placed on the token's auctions, oldest first
+    bids(tokenId: bigint): BidRow[] {
+        return this.bidTable.filter((row) => row.tokenId === tokenId);
+    }
+
+    proposals(): ProposalRow[] {
+        return [...this.proposalTable.values()];
+    }
+
+    proposal(id: bigint): ProposalRow | undefined {
+        return this.proposalTable.get(id);
+    }
+
+    milestones(campaignId: bigint): MilestoneRow[] {
+        return [...this.milestoneTable.values()].filter((row) => row.campaignId === campaignId);
+    }
+
+    // Mirrors get-royalty-bps: a token's own royalty, else its creator's default
+    royaltyBps(tokenId: bigint): bigint {
+        const creator = this.ownershipHistory(tokenId)[0]?.owner;
+        return this.tokenRoyaltyTable.get(tokenId) ??
+            (creator === undefined ? 0n : this.creatorRoyaltyTable.get(creator) ?? 0n);
+    }
+
+    get requiredAppraisals(): bigint {
+        return this.requiredAppraisalCount;
+    }
+
+    private rebuild() {
+        this.campaignTable = new Map();
+        this.donationTable = [];
+        this.listingTable = new Map();
+        this.saleTable = [];
+        this.ownershipTable = [];
+        this.offerTable = new Map();
+        this.bidTable = [];
+        this.proposalTable = new Map();
+        this.milestoneTable = new Map();
+        this.tokenRoyaltyTable = new Map();
+        this.creatorRoyaltyTable = new Map();
+        this.requiredAppraisalCount = 1n;
+        this.tipHeight = undefined;
+        for (const block of this.store.load()) {
+            this.apply(block);
+        }
+    }
+
+    private apply(block: IndexedBlock) {
+        for (const event of block.events) {
+            this.project(event, block.height);
+        }
+        this.tipHeight = block.height;
+    }
+
+    private updateCampaign(id: bigint, change: Partial<CampaignRow>) {
+        const campaign = this.campaignTable.get(id);
+        if (!campaign) {
+            throw new Error(`Event for unknown campaign u${id}`);
+        }
+        this.campaignTable.set(id, { ...campaign, ...change });
+    }
+
+    private updateProposal(id: bigint, change: (proposal: ProposalRow) => Partial<ProposalRow>) {
+        const proposal = this.proposalTable.get(id);
+        if (!proposal) {
+            throw new Error(`Event for unknown proposal u${id}`);
+        }
+        this.proposalTable.set(id, { ...proposal, ...change(proposal) });
+    }
+
+    private pendingDonationIndex(tokenId: bigint, campaignId: bigint): number {
+        return this.donationTable.findIndex((row) =>
+            row.pending === true && row.tokenId === tokenId && row.campaignId === campaignId);
+    }
+
+    // The NFT's latest donation to the campaign, pending or credited
+    private nftDonationIndex(tokenId: bigint, campaignId: bigint): number {
+        for (let index = this.donationTable.length - 1; index >= 0; index--) {
+            const row = this.donationTable[index];
+            if (row.tokenId === tokenId && row.campaignId === campaignId) {
+                return index;
+            }
+        }
+        return -1;
+    }
+
+    private project(event: ContractEvent, height: number) {
+        switch (event.topic) {
+            case 'campaign-created':
+                this.campaignTable.set(event.campaignId, {
+                    id: event.campaignId,
+                    manager: event.manager,
+                    beneficiary: event.beneficiary,
+                    goal: event.goal,
+                    raised: 0n,
+                    matched: 0n,
+                    roundMatched: 0n,
+                    withdrawn: 0n,
+                    refunded: 0n,
+                    splits: [],
+                    deadline: event.deadline,
+                    status: event.status,
+                    createdAt: height,
+                });
+                break;
+            case 'campaign-status-changed':
+                this.updateCampaign(event.campaignId, { status: event.status });
+                break;
+            case 'campaign-deadline-extended':
+                this.updateCampaign(event.campaignId, { deadline: event.deadline });
+                break;
+            case 'campaign-splits-set':
+                this.updateCampaign(event.campaignId, { splits: event.splits });
+                break;
+            case 'campaign-funds-withdrawn':
+                this.updateCampaign(event.campaignId, {
+                    withdrawn: this.campaignTable.get(event.campaignId)!.withdrawn + event.amount,
+                });
+                break;
+            case 'refund-claimed':
+                this.updateCampaign(event.campaignId, {
+                    refunded: this.campaignTable.get(event.campaignId)!.refunded + event.amount,
+                });
+                break;
+            case 'milestone-added':
+                // Re-adding a milestone resets its claim count, as on chain
+                this.milestoneTable.set(`${event.campaignId}:${event.milestoneId}`, {
+                    campaignId: event.campaignId,
+                    milestoneId: event.milestoneId,
+                    targetAmount: event.targetAmount,
+                    campaignWide: event.campaignWide,
+                    claims: 0n,
+                });
+                break;
+            case 'milestone-claimed': {
+                const key = `${event.campaignId}:${event.milestoneId}`;
+                const milestone = this.milestoneTable.get(key);
+                if (milestone) {
+                    this.milestoneTable.set(key, { ...milestone, claims: milestone.claims + 1n });
+                }
+                break;
+            }
+            case 'campaign-credited':
+                this.updateCampaign(event.campaignId, { raised: event.raised });
+                break;
+            case 'donation-matched':
+                this.updateCampaign(event.campaignId, {
+                    matched: this.campaignTable.get(event.campaignId)!.matched + event.amount,
+                });
+                break;
+            case 'round-match-paid':
+                this.updateCampaign(event.campaignId, {
+                    roundMatched: this.campaignTable.get(event.campaignId)!.roundMatched + event.amount,
+                });
+                break;
+            case 'campaign-donation':
+                this.donationTable.push({
+                    campaignId: event.campaignId,
+                    donor: event.donor,
+                    amount: event.amount,
+                    ...(event.memo === undefined ? {} : { memo: event.memo }),
+                    height,
+                });
+                break;
+            case 'campaign-token-donation':
+                this.donationTable.push({
+                    campaignId: event.campaignId,
+                    donor: event.donor,
+                    amount: event.amount,
+                    token: event.token,
+                    height,
+                });
+                break;
+            case 'nft-donated':
+                this.donationTable.push({
+                    campaignId: event.campaignId,
+                    donor: event.donor,
+                    amount: 0n,
+                    tokenId: event.tokenId,
+                    pending: true,
+                    height,
+                });
+                break;
+            case 'nft-donation-credited': {
+                const index = this.nftDonationIndex(event.tokenId, event.campaignId);
+                if (index >= 0) {
+                    this.donationTable[index] = { ...this.donationTable[index], amount: event.value, pending: false };
+                }
+                break;
+            }
+            case 'nft-donation-withdrawn': {
+                const index = this.pendingDonationIndex(event.tokenId, event.campaignId);
+                if (index >= 0) {
+                    this.donationTable.splice(index, 1);
+                }
+                break;
+            }
+            case 'nft-minted':
+                this.ownershipTable.push({ tokenId: event.tokenId, owner: event.creator, height });
+                break;
+            case 'nft-transferred':
+                // A listing never survives a change of owner
+                this.listingTable.delete(event.tokenId);
+                this.ownershipTable.push({ tokenId: event.tokenId, owner: event.recipient, height });
+                break;
+            case 'nft-listed':
+                this.listingTable.set(event.tokenId, {
+                    tokenId: event.tokenId,
+                    seller: event.seller,
+                    price: event.price,
+                    expiry: event.expiry,
+                    ...(event.campaignId === undefined ? {} : { campaignId: event.campaignId }),
+                    ...(event.paymentToken === undefined ? {} : { paymentToken: event.paymentToken }),
+                    listedAt: height,
+                });
+                break;
+            case 'listing-updated': {
+                const listing = this.listingTable.get(event.tokenId);
+                if (listing) {
+                    this.listingTable.set(event.tokenId, { ...listing, price: event.price });
+                }
+                break;
+            }
+            case 'nft-unlisted':
+            case 'auction-created':
+                this.listingTable.delete(event.tokenId);
+                break;
+            case 'offer-made':
+                this.offerTable.set(`${event.tokenId}:${event.bidder}`, {
+                    tokenId: event.tokenId,
+                    bidder: event.bidder,
+                    amount: event.amount,
+                    expiry: event.expiry,
+                    madeAt: height,
+                });
+                break;
+            case 'offer-cancelled':
+            case 'offer-accepted':
+                this.offerTable.delete(`${event.tokenId}:${event.bidder}`);
+                break;
+            case 'bid-placed':
+                this.bidTable.push({ tokenId: event.tokenId, bidder: event.bidder, amount: event.amount, height });
+                break;
+            case 'token-royalty-set':
+                this.tokenRoyaltyTable.set(event.tokenId, event.bps);
+                break;
+            case 'creator-royalty-set':
+                this.creatorRoyaltyTable.set(event.creator, event.bps);
+                break;
+            case 'required-appraisals-set':
+                this.requiredAppraisalCount = event.count;
+                break;
+            case 'proposal-created':
+                this.proposalTable.set(event.proposalId, {
+                    id: event.proposalId,
+                    proposer: event.proposer,
+                    action: event.action,
+                    value: event.value,
+                    ...(event.target === undefined ? {} : { target: event.target }),
+                    approvers: [],
+                    status: 'pending',
+                    createdAt: height,
+                });
+                break;
+            case 'proposal-approved':
+                this.updateProposal(event.proposalId, (proposal) => ({
+                    approvers: [...proposal.approvers, event.signer],
+                    ...(event.executableAt === undefined ? {} : { executableAt: event.executableAt }),
+                }));
+                break;
+            case 'proposal-executed':
+                this.updateProposal(event.proposalId, () => ({ status: 'executed' }));
+                break;
+            case 'proposal-cancelled':
+                this.updateProposal(event.proposalId, () => ({ status: 'cancelled' }));
+                break;
+            case 'nft-sold':
+                this.saleTable.push({
+                    tokenId: event.tokenId,
+                    seller: event.seller,
+                    buyer: event.buyer,
+                    price: event.price,
+                    royalty: event.royalty,
+                    donation: event.donation,
+                    ...(event.campaignId === undefined ? {} : { campaignId: event.campaignId }),
+                    ...(event.paymentToken === undefined ? {} : { paymentToken: event.paymentToken }),
+                    height,
+                });
+                break;
+            default:
+                // Badges, roles and ownership have no table yet
+                break;
+        }
+    }
+}
@@ -0,0 +1,60 @@
+// Keeper for recurring pledges. Each round pages through the pledge ids for
+// pledges that are due and processes all of them in one block.
+// process-pledge is permissionless, so the keeper only needs an account to
+// send from.
+//
+// The keeper drives a Clarinet Chain, so it runs in tests and the Clarinet
+// simulator only. It does not sign or broadcast transactions to a devnet
+// node; a bot doing that would repeat runOnce with a Stacks API client.
+
+import { Chain } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { expectUint } from './clarity.ts';
+import { CharityPlatformClient, Response, decodeReceipt } from './client.ts';
+
+export interface ProcessedPledge {
+    pledgeId: bigint;
+    // The amount released, or why the release failed
+    result: Response<bigint>;
+}
+
+export interface KeeperRound {
+    // Undefined when nothing was due and no block was mined
+    height?: number;
+    processed: ProcessedPledge[];
+}
+
+export class PledgeKeeper {
+    constructor(
+        private readonly chain: Chain,
+        private readonly client: CharityPlatformClient,
+        readonly sender: string,
+    ) {}
+
+    duePledges(): bigint[] {
+        return this.client.getAllDuePledges();
+    }
+
+    // Processes every due pledge once. A pledge that fell more than one
+    // interval behind is due again in the next round.
+    runOnce(): KeeperRound {
+        const due = this.duePledges();
+        if (due.length === 0) {
+            return { processed: [] };
+        }
+        const block = this.chain.mineBlock(due.map((pledgeId) => this.client.processPledge(pledgeId, this.sender)));
+        return {
+            height: block.height,
+            processed: due.map((pledgeId, i) => ({ pledgeId, result: decodeReceipt(block.receipts[i], expectUint) })),
+        };
+    }
+
+    // Runs a round, then lets interval blocks pass, rounds times over
+    run(rounds: number, interval: number): KeeperRound[] {
+        const history: KeeperRound[] = [];
+        for (let round = 0; round < rounds; round++) {
+            history.push(this.runOnce());
+            this.chain.mineEmptyBlock(interval);
+        }
+        return history;
+    }
+}
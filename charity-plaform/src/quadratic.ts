@@ -0,0 +1,66 @@
+// Reference implementation of the quadratic funding payout in finalize-round.
+// Each campaign scores the square of the sum of the square roots of its
+// donors' contributions, and the pot is split in proportion to the scores.
+// All arithmetic is integer and rounds down exactly like the contract, so
+// results can be compared with the chain to the micro-STX.
+
+export interface RoundGift {
+    campaignId: bigint;
+    donor: string;
+    amount: bigint;
+}
+
+export interface RoundAllocation {
+    campaignId: bigint;
+    score: bigint;
+    matched: bigint;
+}
+
+export interface RoundPayout {
+    allocations: RoundAllocation[];
+    // Rounding remainder, or the whole pot when nobody contributed
+    refund: bigint;
+}
+
+// Floor of the square root, like Clarity's sqrti
+export function isqrt(n: bigint): bigint {
+    if (n < 0n) {
+        throw new RangeError(`isqrt of negative ${n}`);
+    }
+    if (n < 2n) {
+        return n;
+    }
+    let x = n;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+        x = y;
+        y = (x + n / x) / 2n;
+    }
+    return x;
+}
+
+// A donor's gifts to a campaign count as one contribution
+export function quadraticScore(contributions: bigint[]): bigint {
+    const sumSqrt = contributions.reduce((sum, amount) => sum + isqrt(amount), 0n);
+    return sumSqrt * sumSqrt;
+}
+
+// Gifts to campaigns outside campaignIds are ignored, as they never reach the round
+export function allocateRound(pot: bigint, campaignIds: bigint[], gifts: RoundGift[]): RoundPayout {
+    const perDonor = new Map<bigint, Map<string, bigint>>(campaignIds.map((id) => [id, new Map()]));
+    for (const gift of gifts) {
+        const donors = perDonor.get(gift.campaignId);
+        donors?.set(gift.donor, (donors.get(gift.donor) ?? 0n) + gift.amount);
+    }
+    const scores = campaignIds.map((id) => quadraticScore([...perDonor.get(id)!.values()]));
+    const total = scores.reduce((sum, score) => sum + score, 0n);
+    const allocations = campaignIds.map((campaignId, i) => ({
+        campaignId,
+        score: scores[i],
+        matched: total === 0n ? 0n : (pot * scores[i]) / total,
+    }));
+    return {
+        allocations,
+        refund: pot - allocations.reduce((sum, allocation) => sum + allocation.matched, 0n),
+    };
+}
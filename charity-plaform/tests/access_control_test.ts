@@ -0,0 +1,161 @@
+import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt, NewCampaign } from '../src/client.ts';
+import { expectBool, expectUint } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+
+const campaign = (beneficiary: string): NewCampaign => ({
+    name: "Managed",
+    description: "Run by a campaign manager",
+    goal: 100000000,
+    duration: 1000,
+    beneficiary,
+});
+
+Clarinet.test({
+    name: "Ensure only the owner manages admins and only admins manage other roles",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const admin = accounts.get('wallet_1')!;
+        const manager = accounts.get('wallet_2')!;
+        const outsider = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        const block = chain.mineBlock([
+            client.grantRole('admin', admin.address, outsider.address),
+            client.grantRole('admin', admin.address, deployer.address),
+            client.grantRole('admin', outsider.address, admin.address),
+            client.grantRole('campaignManager', manager.address, admin.address),
+            client.grantRole('pauser', outsider.address, manager.address),
+            client.revokeRole('admin', admin.address, admin.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-missing-role');
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[2]), 'err-missing-role');
+        assertEquals(decodeReceipt(block.receipts[3], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[4]), 'err-missing-role');
+        assertEquals(receiptError(block.receipts[5]), 'err-missing-role');
+
+        assertEquals(client.hasRole('admin', admin.address), true);
+        assertEquals(client.hasRole('admin', outsider.address), false);
+        assertEquals(client.hasRole('campaignManager', manager.address), true);
+        // The owner implicitly holds every role
+        assertEquals(client.hasRole('pauser', deployer.address), true);
+
+        const invalid = chain.mineBlock([
+            Tx.contractCall(client.contract, 'grant-role', [types.uint(5), types.principal(outsider.address)], deployer.address),
+            client.revokeRole('campaignManager', manager.address, admin.address),
+        ]);
+        assertEquals(receiptError(invalid.receipts[0]), 'err-invalid-role');
+        assertEquals(decodeReceipt(invalid.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(client.hasRole('campaignManager', manager.address), false);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure campaign managers run only the campaigns they created",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const manager = accounts.get('wallet_1')!;
+        const otherManager = accounts.get('wallet_2')!;
+        const outsider = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.grantRole('campaignManager', manager.address, deployer.address),
+            client.grantRole('campaignManager', otherManager.address, deployer.address),
+            client.createCharityCampaign(campaign(manager.address), manager.address),
+            client.createCharityCampaign(campaign(deployer.address), otherManager.address),
+            client.createCharityCampaign(campaign(outsider.address), outsider.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[2], expectUint), { ok: true, value: 1n });
+        assertEquals(decodeReceipt(block.receipts[3], expectUint), { ok: true, value: 2n });
+        assertEquals(receiptError(block.receipts[4]), 'err-missing-role');
+        assertEquals(client.getCampaignDetails(1)!.manager, manager.address);
+
+        block = chain.mineBlock([
+            client.addCampaignMilestone(1, 1, "Tier", 1000000, "https://example.com/badge", manager.address),
+            client.setCampaignSplits(1, [{ recipient: outsider.address, share: 1000 }], manager.address),
+            client.addCampaignMilestone(2, 1, "Tier", 1000000, "https://example.com/badge", manager.address),
+            client.setCampaignSplits(2, [], manager.address),
+            client.endCampaign(2, manager.address),
+            client.endCampaign(1, outsider.address),
+            client.setDonorBadgeUri("https://example.com/badge", manager.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[2]), 'err-not-campaign-operator');
+        assertEquals(receiptError(block.receipts[3]), 'err-not-campaign-operator');
+        assertEquals(receiptError(block.receipts[4]), 'err-not-campaign-operator');
+        assertEquals(receiptError(block.receipts[5]), 'err-not-campaign-operator');
+        assertEquals(receiptError(block.receipts[6]), 'err-missing-role');
+
+        // A revoked manager loses their campaigns; admins can still run them
+        block = chain.mineBlock([
+            client.revokeRole('campaignManager', manager.address, deployer.address),
+            client.endCampaign(1, manager.address),
+            client.endCampaign(1, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-not-campaign-operator');
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+        assertEquals(client.getCampaignDetails(1)!.status, 'failed');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure only pausers can pause and only admins change settings",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const admin = accounts.get('wallet_1')!;
+        const pauser = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        const block = chain.mineBlock([
+            client.grantRole('admin', admin.address, deployer.address),
+            client.grantRole('pauser', pauser.address, admin.address),
+            client.togglePause(admin.address),
+            client.setDonorBadgeUri("https://example.com/badge", pauser.address),
+            // Fee and treasury settings belong to governance signers, not to any role
+            client.propose({ action: 'donation-percentage', value: 10 }, admin.address),
+            client.setDonorBadgeUri("https://example.com/badge", admin.address),
+            client.togglePause(pauser.address),
+        ]);
+        assertEquals(receiptError(block.receipts[2]), 'err-missing-role');
+        assertEquals(receiptError(block.receipts[3]), 'err-missing-role');
+        assertEquals(receiptError(block.receipts[4]), 'err-not-signer');
+        assertEquals(decodeReceipt(block.receipts[5], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[6], expectBool), { ok: true, value: true });
+    },
+});
+
+Clarinet.test({
+    name: "Ensure ownership moves only when the nominee accepts",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const nominee = accounts.get('wallet_1')!;
+        const outsider = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.transferOwnership(outsider.address, outsider.address),
+            client.transferOwnership(nominee.address, deployer.address),
+            client.acceptOwnership(outsider.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-owner-only');
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[2]), 'err-not-pending-owner');
+        assertEquals(client.getContractOwner(), deployer.address);
+        assertEquals(client.getPendingOwner(), nominee.address);
+
+        block = chain.mineBlock([
+            client.acceptOwnership(nominee.address),
+            client.setDonorBadgeUri("https://example.com/badge", deployer.address),
+            client.grantRole('admin', deployer.address, nominee.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[1]), 'err-missing-role');
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+        assertEquals(client.getContractOwner(), nominee.address);
+        assertEquals(client.getPendingOwner(), undefined);
+    },
+});
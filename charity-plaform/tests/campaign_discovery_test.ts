@@ -0,0 +1,103 @@
+import { Clarinet, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, ListedCampaign } from '../src/client.ts';
+
+const goal = 1000000;
+const ids = (campaigns: ListedCampaign[]) => campaigns.map((campaign) => Number(campaign.id));
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+Clarinet.test({
+    name: "Ensure campaigns page by id and filter by status, deadline and goal",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        // Even campaigns expire quickly, every fifth one reaches its goal
+        chain.mineBlock(range(1, 25).map((id) => client.createCharityCampaign({
+            name: `Campaign ${id}`,
+            description: "Seeded for discovery",
+            goal,
+            duration: id % 2 === 0 ? 5 : 1000,
+            beneficiary: deployer.address,
+        }, deployer.address)));
+        chain.mineBlock([5, 10, 15, 20, 25].map((id) => client.donateToCampaign(id, goal, donor.address)));
+        chain.mineEmptyBlock(10);
+
+        assertEquals(client.getCampaignCount(), 25n);
+        assertEquals(ids(client.getCampaigns()), range(1, 10));
+        assertEquals(ids(client.getCampaigns(10)), range(11, 20));
+        assertEquals(ids(client.getCampaigns(20)), range(21, 25));
+        assertEquals(ids(client.getCampaigns(25)), []);
+        assertEquals(ids(client.getCampaigns(5)), range(6, 15));
+
+        const all = client.getAllCampaigns();
+        assertEquals(ids(all), range(1, 25));
+        assertEquals(all[24].name, "Campaign 25");
+        assertEquals(all[24].raised, BigInt(goal));
+
+        const odd = range(1, 25).filter((id) => id % 2 === 1);
+        assertEquals(ids(client.getAllCampaigns('active')), odd);
+        assertEquals(ids(client.getAllCampaigns('expired')), range(1, 25).filter((id) => id % 2 === 0));
+        assertEquals(ids(client.getAllCampaigns('goal-met')), [5, 10, 15, 20, 25]);
+        // A filtered page holds only the matching ids it scanned
+        assertEquals(ids(client.getCampaigns(10, 'goal-met')), [15, 20]);
+
+        const unknownFilter = chain.callReadOnlyFn(
+            client.contract, 'get-campaigns', [types.uint(0), types.uint(9)], deployer.address);
+        assertEquals(unknownFilter.result, '[]');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure donors are counted once and ranked by their total contribution",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const wallets = range(1, 9).map((i) => accounts.get(`wallet_${i}`)!);
+        const [artist, donor2, donor3, donor4] = wallets;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Ranked",
+                description: "Top donors",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', artist.address),
+        ]);
+        chain.mineBlock([
+            client.listForSale(1, 5000000, artist.address),
+            client.donateToCampaign(1, 1000000, donor2.address),
+            client.donateToCampaign(1, 3000000, donor3.address),
+            client.donateToCampaign(1, 1000000, donor2.address),
+            client.donateToCampaign(1, 2000000, donor4.address),
+            client.donateNftToCampaign(1, 1, artist.address),
+            client.appraiseNft(1, 5000000, deployer.address),
+        ]);
+
+        assertEquals(client.getCampaignDonorCount(1), 4n);
+        assertEquals(client.getCampaignTopDonors(1), [
+            { donor: artist.address, amount: 5000000n },
+            { donor: donor3.address, amount: 3000000n },
+            // Ties keep the earlier donor ahead
+            { donor: donor2.address, amount: 2000000n },
+            { donor: donor4.address, amount: 2000000n },
+        ]);
+
+        chain.mineBlock([client.donateToCampaign(1, 4000000, donor4.address)]);
+        assertEquals(client.getCampaignDonorCount(1), 4n);
+        assertEquals(client.getCampaignTopDonors(1).map((entry) => entry.donor),
+            [donor4.address, artist.address, donor3.address, donor2.address]);
+
+        chain.mineBlock([deployer, ...wallets.slice(4)].map((account) =>
+            client.donateToCampaign(1, 100000, account.address)));
+        const top = client.getCampaignTopDonors(1);
+        assertEquals(client.getCampaignDonorCount(1), 10n);
+        assertEquals(top.length, 10);
+        assertEquals(top[4], { donor: deployer.address, amount: 100000n });
+        assertEquals(client.getCampaignDonorCount(2), 0n);
+        assertEquals(client.getCampaignTopDonors(2), []);
+    },
+});
@@ -0,0 +1,142 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt, NewCampaign } from '../src/client.ts';
+import { expectBool } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+
+const campaign = (beneficiary: string, options: Partial<NewCampaign> = {}): NewCampaign => ({
+    name: "Lifecycle",
+    description: "Moves through every status",
+    goal: 100000000,
+    duration: 10,
+    beneficiary,
+    ...options,
+});
+
+Clarinet.test({
+    name: "Ensure drafts must be launched and paused campaigns refuse donations",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const beneficiary = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign(campaign(beneficiary.address, { draft: true }), deployer.address),
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.pauseCampaign(1, deployer.address),
+            client.launchCampaign(1, donor.address),
+            client.launchCampaign(1, deployer.address),
+            client.launchCampaign(1, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-campaign-inactive');
+        assertEquals(receiptError(block.receipts[2]), 'err-invalid-transition');
+        assertEquals(receiptError(block.receipts[3]), 'err-not-campaign-operator');
+        assertEquals(decodeReceipt(block.receipts[4], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[5]), 'err-invalid-transition');
+        assertEquals(client.getCampaignStatus(1), 'active');
+
+        block = chain.mineBlock([
+            client.pauseCampaign(1, deployer.address),
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.pauseCampaign(1, deployer.address),
+            client.resumeCampaign(1, deployer.address),
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.resumeCampaign(1, deployer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[1]), 'err-campaign-paused');
+        assertEquals(receiptError(block.receipts[2]), 'err-invalid-transition');
+        assertEquals(decodeReceipt(block.receipts[3], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[4], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[5]), 'err-invalid-transition');
+        assertEquals(client.getCampaignDetails(1)!.raised, 1000000n);
+        assertEquals(client.getCampaignStatus(2), undefined);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure status follows the deadline and goal and the report survives the deadline",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const beneficiary = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign(campaign(beneficiary.address), deployer.address),
+            client.createCharityCampaign(campaign(beneficiary.address), deployer.address),
+            client.extendDeadline(1, 0, deployer.address),
+            client.extendDeadline(1, 5, deployer.address),
+            client.pauseCampaign(2, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[2]), 'err-invalid-duration');
+        assertEquals(decodeReceipt(block.receipts[3], expectBool), { ok: true, value: true });
+        const deadline = client.getCampaignDetails(1)!.deadline;
+        assertEquals(deadline, client.getCampaignDetails(2)!.deadline + 5n);
+
+        block = chain.mineBlock([client.donateToCampaign(1, 100000000, donor.address)]);
+        chain.mineEmptyBlockUntil(Number(deadline) + 1);
+
+        // A paused campaign still settles once its deadline passes
+        assertEquals(client.getCampaignStatus(1), 'succeeded');
+        assertEquals(client.getCampaignStatus(2), 'failed');
+
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.extendDeadline(1, 5, deployer.address),
+            client.resumeCampaign(2, deployer.address),
+            client.endCampaign(1, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-campaign-expired');
+        assertEquals(receiptError(block.receipts[1]), 'err-invalid-transition');
+        assertEquals(receiptError(block.receipts[2]), 'err-invalid-transition');
+        assertEquals(receiptError(block.receipts[3]), 'err-invalid-transition');
+
+        const report = client.generateCampaignReport(1);
+        assertEquals(report.ok, true);
+        if (!report.ok) return;
+        assertEquals(report.value.status, 'succeeded');
+        assertEquals(report.value.goalPercentage, 100n);
+        assertEquals(report.value.remainingBlocks, 0n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure campaigns close only once finished with an empty escrow",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const beneficiary = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign(campaign(beneficiary.address, { allOrNothing: true }), deployer.address),
+            client.createCharityCampaign(campaign(beneficiary.address, { draft: true }), deployer.address),
+            client.donateToCampaign(1, 40000000, donor.address),
+            client.closeCampaign(1, deployer.address),
+            client.closeCampaign(2, deployer.address),
+            client.launchCampaign(2, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[3]), 'err-invalid-transition');
+        assertEquals(decodeReceipt(block.receipts[4], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[5]), 'err-invalid-transition');
+        assertEquals(client.getCampaignStatus(2), 'closed');
+
+        block = chain.mineBlock([
+            client.endCampaign(1, deployer.address),
+            client.closeCampaign(1, deployer.address),
+            client.claimRefund(1, donor.address),
+            client.closeCampaign(1, deployer.address),
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.closeCampaign(1, deployer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[1]), 'err-escrow-not-empty');
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[3], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[4]), 'err-campaign-inactive');
+        assertEquals(receiptError(block.receipts[5]), 'err-invalid-transition');
+        assertEquals(client.getCampaignStatus(1), 'closed');
+    },
+});
@@ -1,5 +1,9 @@
 import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
 import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt, decodeResponse } from '../src/client.ts';
+import { expectBool, expectUint } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+import { stxTransfers } from './helpers.ts';
 
 // Test NFT minting functionality
 Clarinet.test({
@@ -7,31 +11,18 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'mint',
-                [
-                    types.utf8('https://example.com/nft/1'),
-                    types.utf8('art')
-                ],
-                user1.address
-            )
+            client.mint('https://example.com/nft/1', 'art', user1.address)
         ]);
-        
+
         // Check successful response
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok u1)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 1n });
+
         // Check NFT ownership
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-owner',
-            [types.uint(1)],
-            deployer.address
-        );
-        assertEquals(call.result, `(some ${user1.address})`);
+        assertEquals(client.getOwner(1), user1.address);
     },
 });
 
@@ -42,45 +33,24 @@ Clarinet.test({
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
         const user2 = accounts.get('wallet_2')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // First mint an NFT
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'mint',
-                [
-                    types.utf8('https://example.com/nft/1'),
-                    types.utf8('art')
-                ],
-                user1.address
-            )
+            client.mint('https://example.com/nft/1', 'art', user1.address)
         ]);
-        
+
         // Then transfer it
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'transfer',
-                [
-                    types.uint(1),
-                    types.principal(user2.address)
-                ],
-                user1.address
-            )
+            client.transfer(1, user2.address, user1.address)
         ]);
-        
+
         // Check successful response
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Check new NFT ownership
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-owner',
-            [types.uint(1)],
-            deployer.address
-        );
-        assertEquals(call.result, `(some ${user2.address})`);
+        assertEquals(client.getOwner(1), user2.address);
     },
 });
 
@@ -90,46 +60,25 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // First mint an NFT
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'mint',
-                [
-                    types.utf8('https://example.com/nft/1'),
-                    types.utf8('art')
-                ],
-                user1.address
-            )
+            client.mint('https://example.com/nft/1', 'art', user1.address)
         ]);
-        
+
         // Then list it for sale
         const listPrice = 1000000; // 1 STX
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'list-for-sale',
-                [
-                    types.uint(1),
-                    types.uint(listPrice)
-                ],
-                user1.address
-            )
+            client.listForSale(1, listPrice, user1.address)
         ]);
-        
+
         // Check successful response
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Check price
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-price',
-            [types.uint(1)],
-            deployer.address
-        );
-        assertEquals(call.result, `(some u${listPrice})`);
+        assertEquals(client.getPrice(1), BigInt(listPrice));
     },
 });
 
@@ -138,44 +87,36 @@ Clarinet.test({
     name: "Ensure that contract owner can create charity campaigns",
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         const campaignName = "Save the Planet";
         const campaignDesc = "Help us save the planet by planting trees";
         const goal = 1000000000; // 1000 STX
         const duration = 1000; // blocks
-        
+
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8(campaignName),
-                    types.utf8(campaignDesc),
-                    types.uint(goal),
-                    types.uint(duration)
-                ],
-                deployer.address
-            )
+            client.createCharityCampaign({
+                name: campaignName,
+                description: campaignDesc,
+                goal,
+                duration,
+                beneficiary: deployer.address,
+            }, deployer.address)
         ]);
-        
+
         // Check successful response
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok u1)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 1n });
+
         // Check campaign details
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-campaign-details',
-            [types.uint(1)],
-            deployer.address
-        );
-        
-        // Parse the result for verification
-        const result = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(
-            result.includes(`(some {name: "${campaignName}", description: "${campaignDesc}", goal: u${goal}`),
-            true
-        );
+        const campaign = client.getCampaignDetails(1)!;
+        assertEquals(campaign.name, campaignName);
+        assertEquals(campaign.description, campaignDesc);
+        assertEquals(campaign.goal, BigInt(goal));
+        assertEquals(campaign.raised, 0n);
+        assertEquals(campaign.deadline, BigInt(block.height + duration));
+        assertEquals(campaign.status, 'active');
+        assertEquals(campaign.beneficiary, deployer.address);
     },
 });
 
@@ -183,25 +124,23 @@ Clarinet.test({
 Clarinet.test({
     name: "Ensure that only contract owner can create charity campaigns",
     async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8("Test Campaign"),
-                    types.utf8("This should fail"),
-                    types.uint(100000000),
-                    types.uint(1000)
-                ],
-                user1.address
-            )
+            client.createCharityCampaign({
+                name: "Test Campaign",
+                description: "This should fail",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: user1.address,
+            }, user1.address)
         ]);
-        
+
         // Check error response
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(err u100)'); // err-owner-only
+        assertEquals(receiptError(block.receipts[0]), 'err-missing-role');
     },
 });
 
@@ -211,71 +150,38 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
-        const charityAddress = 'SP000000000000000000002Q6VF78';
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // First create a campaign
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8("Donation Test"),
-                    types.utf8("Testing donations"),
-                    types.uint(1000000000),
-                    types.uint(1000)
-                ],
-                deployer.address
-            )
+            client.createCharityCampaign({
+                name: "Donation Test",
+                description: "Testing donations",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address)
         ]);
-        
+
         // Then donate to it
         const donationAmount = 50000000; // 50 STX
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'donate-to-campaign',
-                [
-                    types.uint(1),
-                    types.uint(donationAmount)
-                ],
-                user1.address
-            )
+            client.donateToCampaign(1, donationAmount, user1.address)
         ]);
-        
+
         // Check successful donation
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Check updated campaign stats
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-campaign-details',
-            [types.uint(1)],
-            deployer.address
-        );
-        
-        const result = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(
-            result.includes(`raised: u${donationAmount}`),
-            true
-        );
-        
+        assertEquals(client.getCampaignDetails(1)!.raised, BigInt(donationAmount));
+
         // Check donation record
-        call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-user-donation-history',
-            [
-                types.principal(user1.address),
-                types.uint(1)
-            ],
-            deployer.address
-        );
-        
-        const donationRecord = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(
-            donationRecord.includes(`(some {amount: u${donationAmount}`),
-            true
-        );
+        assertEquals(client.getUserDonationHistory(user1.address, 1), {
+            total: BigInt(donationAmount),
+            count: 1n,
+            lastBlock: BigInt(block.height),
+        });
     },
 });
 
@@ -286,83 +192,39 @@ Clarinet.test({
         const deployer = accounts.get('deployer')!;
         const seller = accounts.get('wallet_1')!;
         const buyer = accounts.get('wallet_2')!;
-        const charityAddress = 'SP000000000000000000002Q6VF78';
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // First mint an NFT
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'mint',
-                [
-                    types.utf8('https://example.com/nft/1'),
-                    types.utf8('art')
-                ],
-                seller.address
-            )
+            client.mint('https://example.com/nft/1', 'art', seller.address)
         ]);
-        
+
         // List for sale
         const listPrice = 100000000; // 100 STX
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'list-for-sale',
-                [
-                    types.uint(1),
-                    types.uint(listPrice)
-                ],
-                seller.address
-            )
+            client.listForSale(1, listPrice, seller.address)
         ]);
-        
+
         // Check donation percentage - default should be 20%
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-donation-percentage',
-            [],
-            deployer.address
-        );
-        
+        assertEquals(client.getDonationPercentage(), 20n);
+
         // Then buy the NFT
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'buy-nft',
-                [types.uint(1)],
-                buyer.address
-            )
+            client.buyNft(1, buyer.address)
         ]);
-        
+
         // Check successful purchase
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Check ownership transferred
-        call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-owner',
-            [types.uint(1)],
-            deployer.address
-        );
-        assertEquals(call.result, `(some ${buyer.address})`);
-        
+        assertEquals(client.getOwner(1), buyer.address);
+
         // Price should be removed after purchase
-        call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-price',
-            [types.uint(1)],
-            deployer.address
-        );
-        assertEquals(call.result, 'none');
-        
+        assertEquals(client.getPrice(1), undefined);
+
         // Donation total should be increased by 20% of price (20 STX)
-        call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-total-donations',
-            [],
-            deployer.address
-        );
-        assertEquals(call.result, `u${listPrice * 0.2}`);
+        assertEquals(client.getTotalDonations(), BigInt(listPrice * 0.2));
     },
 });
 
@@ -372,100 +234,65 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // First create a campaign
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8("NFT Donation Campaign"),
-                    types.utf8("Donate your NFTs for a good cause"),
-                    types.uint(1000000000),
-                    types.uint(1000)
-                ],
-                deployer.address
-            )
+            client.createCharityCampaign({
+                name: "NFT Donation Campaign",
+                description: "Donate your NFTs for a good cause",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address)
         ]);
-        
+
         // Mint an NFT
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'mint',
-                [
-                    types.utf8('https://example.com/nft/1'),
-                    types.utf8('art')
-                ],
-                user1.address
-            )
+            client.mint('https://example.com/nft/1', 'art', user1.address)
         ]);
-        
+
         // List it for a price first to give it value
         const nftValue = 50000000; // 50 STX
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'list-for-sale',
-                [
-                    types.uint(1),
-                    types.uint(nftValue)
-                ],
-                user1.address
-            )
+            client.listForSale(1, nftValue, user1.address)
         ]);
-        
+
         // Donate the NFT to the campaign
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'donate-nft-to-campaign',
-                [
-                    types.uint(1),
-                    types.uint(1)
-                ],
-                user1.address
-            )
+            client.donateNftToCampaign(1, 1, user1.address)
         ]);
-        
+
         // Check successful donation
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Check campaign NFT list
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-campaign-nfts',
-            [types.uint(1)],
-            deployer.address
-        );
-        assertEquals(call.result.includes('u1'), true);
-        
+        assertEquals(client.getCampaignNfts(1), [1n]);
+
+        // The listed price is not trusted, so the donation waits for a value
+        assertEquals(client.getUserCampaignStats(user1.address, 1), {
+            nftsDonated: [1n],
+            totalValue: 0n,
+        });
+        assertEquals(client.getCampaignPendingNfts(1), [1n]);
+        assertEquals(client.getCampaignDetails(1)!.raised, 0n);
+
+        // The contract owner holds the appraiser role
+        block = chain.mineBlock([
+            client.appraiseNft(1, nftValue, deployer.address)
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Check user participation stats
-        call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-user-campaign-stats',
-            [
-                types.principal(user1.address),
-                types.uint(1)
-            ],
-            deployer.address
-        );
-        
-        const result = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(result.includes(`nfts-donated: [u1]`), true);
-        assertEquals(result.includes(`total-value: u${nftValue}`), true);
-        
+        assertEquals(client.getUserCampaignStats(user1.address, 1), {
+            nftsDonated: [1n],
+            totalValue: BigInt(nftValue),
+        });
+
         // Check campaign raised amount
-        call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-campaign-details',
-            [types.uint(1)],
-            deployer.address
-        );
-        
-        const campaignResult = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(campaignResult.includes(`raised: u${nftValue}`), true);
+        assertEquals(client.getCampaignDetails(1)!.raised, BigInt(nftValue));
+        assertEquals(client.getCampaignPendingNfts(1), []);
     },
 });
 
@@ -475,119 +302,63 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // Create a campaign
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8("Milestone Campaign"),
-                    types.utf8("Campaign with milestones"),
-                    types.uint(1000000000),
-                    types.uint(1000)
-                ],
-                deployer.address
-            )
+            client.createCharityCampaign({
+                name: "Milestone Campaign",
+                description: "Campaign with milestones",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address)
         ]);
-        
+
         // Add a milestone
         const milestoneTargetAmount = 50000000; // 50 STX
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'add-campaign-milestone',
-                [
-                    types.uint(1), // campaign-id
-                    types.uint(1), // milestone-id
-                    types.utf8("First milestone"),
-                    types.uint(milestoneTargetAmount),
-                    types.utf8("https://example.com/reward/1")
-                ],
+            client.addCampaignMilestone(
+                1, // campaign-id
+                1, // milestone-id
+                "First milestone",
+                milestoneTargetAmount,
+                "https://example.com/reward/1",
                 deployer.address
             )
         ]);
-        
+
         // Check successful milestone creation
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Mint an NFT and list it
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'mint',
-                [
-                    types.utf8('https://example.com/nft/1'),
-                    types.utf8('art')
-                ],
-                user1.address
-            ),
-            Tx.contractCall(
-                'charity-platform',
-                'list-for-sale',
-                [
-                    types.uint(1),
-                    types.uint(milestoneTargetAmount)
-                ],
-                user1.address
-            )
+            client.mint('https://example.com/nft/1', 'art', user1.address),
+            client.listForSale(1, milestoneTargetAmount, user1.address)
         ]);
-        
-        // Donate the NFT to reach the milestone
+
+        // Donate the NFT to reach the milestone once it is appraised
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'donate-nft-to-campaign',
-                [
-                    types.uint(1),
-                    types.uint(1)
-                ],
-                user1.address
-            )
+            client.donateNftToCampaign(1, 1, user1.address),
+            client.appraiseNft(1, milestoneTargetAmount, deployer.address)
         ]);
-        
+
         // Claim milestone reward
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'check-and-claim-milestone-reward',
-                [
-                    types.uint(1), // campaign-id
-                    types.uint(1)  // milestone-id
-                ],
-                user1.address
-            )
+            client.checkAndClaimMilestoneReward(1, 1, user1.address)
         ]);
-        
-        // Check successful reward claim (should return NFT token ID)
+
+        // Check successful reward claim (should return the badge ID)
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok u2)'); // Second NFT minted
-        
-        // Check user rewards
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-user-rewards',
-            [types.principal(user1.address)],
-            deployer.address
-        );
-        
-        const result = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(result.includes('u2'), true);
-        
-        // Check milestone status (should be reached)
-        call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-campaign-milestone',
-            [
-                types.uint(1),
-                types.uint(1)
-            ],
-            deployer.address
-        );
-        
-        const milestoneResult = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(milestoneResult.includes('reached: true'), true);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 1n }); // First badge awarded
+
+        // Check user badges
+        assertEquals(client.getHolderBadges(user1.address), [1n]);
+
+        // Check the claim is recorded for this user
+        assertEquals(client.getCampaignMilestone(1, 1)!.claims, 1n);
+        assertEquals(client.getMilestoneClaim(1, 1, user1.address), 1n);
     },
 });
 
@@ -597,89 +368,60 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
         const newCharityAddress = accounts.get('wallet_3')!.address;
-        
-        // Set new charity address
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        // Propose a new charity address and donation percentage; the deployer is the only signer
+        const newPercentage = 30; // 30%
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'set-charity-address',
-                [types.principal(newCharityAddress)],
-                deployer.address
-            )
+            client.propose({ action: 'charity-address', account: newCharityAddress }, deployer.address),
+            client.propose({ action: 'donation-percentage', value: newPercentage }, deployer.address),
         ]);
-        
-        // Check successful update
-        assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
-        // Set new donation percentage
-        const newPercentage = 30; // 30%
+
+        // Execute both once the timelock has elapsed
+        chain.mineEmptyBlockUntil(Number(client.getProposal(2)!.executableAt!));
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'set-donation-percentage',
-                [types.uint(newPercentage)],
-                deployer.address
-            )
+            client.executeProposal(1, deployer.address),
+            client.executeProposal(2, deployer.address),
         ]);
-        
+
         // Check successful update
-        assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(block.receipts.length, 2);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(client.getCharityAddress(), newCharityAddress);
+        assertEquals(client.getDonationPercentage(), BigInt(newPercentage));
+
         // Toggle pause state
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'toggle-pause',
-                [],
-                deployer.address
-            )
+            client.togglePause(deployer.address)
         ]);
-        
+
         // Check successful toggle
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
         // Create a campaign and then end it
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8("Admin Test Campaign"),
-                    types.utf8("Testing admin functions"),
-                    types.uint(1000000000),
-                    types.uint(1000)
-                ],
-                deployer.address
-            )
+            client.createCharityCampaign({
+                name: "Admin Test Campaign",
+                description: "Testing admin functions",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address)
         ]);
-        
+
         // End the campaign
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'end-campaign',
-                [types.uint(1)],
-                deployer.address
-            )
+            client.endCampaign(1, deployer.address)
         ]);
-        
+
         // Check successful campaign end
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(ok true)');
-        
-        // Verify campaign is marked as inactive
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'get-campaign-details',
-            [types.uint(1)],
-            deployer.address
-        );
-        
-        const result = call.result.replace(/\s+/g, ' ').trim();
-        assertEquals(result.includes('active: false'), true);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+
+        // Ended below its goal, so the campaign failed
+        assertEquals(client.getCampaignDetails(1)!.status, 'failed');
     },
 });
 
@@ -689,52 +431,36 @@ Clarinet.test({
     async fn(chain: Chain, accounts: Map<string, Account>) {
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // Create a campaign
         const goal = 1000000000; // 1000 STX
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8("Report Test Campaign"),
-                    types.utf8("Testing campaign reports"),
-                    types.uint(goal),
-                    types.uint(1000)
-                ],
-                deployer.address
-            )
+            client.createCharityCampaign({
+                name: "Report Test Campaign",
+                description: "Testing campaign reports",
+                goal,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address)
         ]);
-        
+
         // Donate to campaign
         const donationAmount = 250000000; // 250 STX (25% of goal)
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'donate-to-campaign',
-                [
-                    types.uint(1),
-                    types.uint(donationAmount)
-                ],
-                user1.address
-            )
+            client.donateToCampaign(1, donationAmount, user1.address)
         ]);
-        
+
         // Generate campaign report
-        let call = chain.callReadOnlyFn(
-            'charity-platform',
-            'generate-campaign-report',
-            [types.uint(1)],
-            deployer.address
-        );
-        
-        const result = call.result.replace(/\s+/g, ' ').trim();
-        
+        const report = client.generateCampaignReport(1);
+        assertEquals(report.ok, true);
+        if (!report.ok) return;
+
         // Check report contains correct information
-        assertEquals(result.includes(`total-raised: u${donationAmount}`), true);
-        assertEquals(result.includes('goal-percentage: u25'), true); // 25% of goal
-        assertEquals(result.includes('total-nfts: u0'), true); // No NFTs yet
-        assertEquals(result.includes('is-active: true'), true);
+        assertEquals(report.value.totalRaised, BigInt(donationAmount));
+        assertEquals(report.value.goalPercentage, 25n); // 25% of goal
+        assertEquals(report.value.totalNfts, 0n); // No NFTs yet
+        assertEquals(report.value.status, 'active');
     },
 });
 
@@ -745,104 +471,1227 @@ Clarinet.test({
         const deployer = accounts.get('deployer')!;
         const user1 = accounts.get('wallet_1')!;
         const user2 = accounts.get('wallet_2')!;
-        
+        const client = new CharityPlatformClient(chain, deployer.address);
+
         // Attempt to transfer NFT not owned by user
         let block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'mint',
-                [
-                    types.utf8('https://example.com/nft/1'),
-                    types.utf8('art')
-                ],
-                user1.address
-            ),
-            Tx.contractCall(
-                'charity-platform',
-                'transfer',
-                [
-                    types.uint(1),
-                    types.principal(user2.address)
-                ],
-                user2.address // Not the owner
-            )
+            client.mint('https://example.com/nft/1', 'art', user1.address),
+            client.transfer(1, user2.address, user2.address) // Not the owner
         ]);
-        
+
         // Check for error
         assertEquals(block.receipts.length, 2);
-        assertEquals(block.receipts[0].result, '(ok u1)');
-        assertEquals(block.receipts[1].result, '(err u101)'); // err-not-token-owner
-        
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 1n });
+        assertEquals(receiptError(block.receipts[1]), 'err-not-token-owner');
+
         // Attempt to list NFT not owned by user
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'list-for-sale',
-                [
-                    types.uint(1),
-                    types.uint(1000000)
-                ],
-                user2.address // Not the owner
-            )
+            client.listForSale(1, 1000000, user2.address) // Not the owner
         ]);
-        
+
         // Check for error
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(err u101)'); // err-not-token-owner
-        
+        assertEquals(receiptError(block.receipts[0]), 'err-not-token-owner');
+
         // Attempt to donate to non-existent campaign
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'donate-to-campaign',
-                [
-                    types.uint(999), // Non-existent campaign
-                    types.uint(1000000)
-                ],
-                user1.address
-            )
+            client.donateToCampaign(999, 1000000, user1.address) // Non-existent campaign
         ]);
-        
+
         // Check for error
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(err u104)'); // err-campaign-not-found
-        
+        assertEquals(receiptError(block.receipts[0]), 'err-campaign-not-found');
+
         // Create a campaign then end it and try to donate
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'create-charity-campaign',
-                [
-                    types.utf8("Test Campaign"),
-                    types.utf8("For testing errors"),
-                    types.uint(1000000000),
-                    types.uint(1000)
-                ],
-                deployer.address
-            ),
-            Tx.contractCall(
-                'charity-platform',
-                'end-campaign',
-                [types.uint(1)],
-                deployer.address
-            )
+            client.createCharityCampaign({
+                name: "Test Campaign",
+                description: "For testing errors",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.endCampaign(1, deployer.address)
         ]);
-        
+
         // Try to donate to ended campaign
         block = chain.mineBlock([
-            Tx.contractCall(
-                'charity-platform',
-                'donate-to-campaign',
-                [
-                    types.uint(1),
-                    types.uint(1000000)
+            client.donateToCampaign(1, 1000000, user1.address)
+        ]);
+
+        // Check for error
+        assertEquals(block.receipts.length, 1);
+        assertEquals(receiptError(block.receipts[0]), 'err-campaign-inactive');
+    },
+});
+
+// Test that distinct failure paths report distinct named errors
+Clarinet.test({
+    name: "Ensure each failure path reports its own named error",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.transfer(7, user2.address, user1.address),
+            client.listForSale(7, 1000000, user1.address),
+            client.buyNft(7, user2.address),
+            client.propose({ action: 'donation-percentage', value: 101 }, deployer.address),
+            client.createCharityCampaign({
+                name: "Zero Goal",
+                description: "Invalid goal",
+                goal: 0,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.checkAndClaimMilestoneReward(1, 1, user1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-token-not-found');
+        assertEquals(receiptError(block.receipts[1]), 'err-token-not-found');
+        assertEquals(receiptError(block.receipts[2]), 'err-not-listed');
+        assertEquals(receiptError(block.receipts[3]), 'err-invalid-percentage');
+        assertEquals(receiptError(block.receipts[4]), 'err-invalid-parameter');
+        assertEquals(receiptError(block.receipts[5]), 'err-milestone-not-found');
+
+        block = chain.mineBlock([
+            client.mint('https://example.com/nft/1', 'art', user1.address),
+            client.listForSale(1, 0, user1.address),
+            client.createCharityCampaign({
+                name: "Errors",
+                description: "Error paths",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.donateToCampaign(1, 0, user1.address),
+            client.addCampaignMilestone(1, 1, "Milestone", 50000000, "https://example.com/reward/1", deployer.address),
+            client.checkAndClaimMilestoneReward(1, 1, user1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-invalid-price');
+        assertEquals(receiptError(block.receipts[3]), 'err-invalid-amount');
+        assertEquals(receiptError(block.receipts[5]), 'err-no-participation');
+
+        // An unpriced NFT donation does not count as participation
+        block = chain.mineBlock([
+            client.donateNftToCampaign(1, 1, user1.address),
+            client.checkAndClaimMilestoneReward(1, 1, user1.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[1]), 'err-no-participation');
+
+        // Paused contract is reported as paused, not as an invalid price
+        block = chain.mineBlock([
+            client.mint('https://example.com/nft/2', 'art', user1.address),
+            client.listForSale(2, 1000000, user1.address),
+            client.togglePause(deployer.address),
+            client.buyNft(2, user2.address),
+            client.mint('https://example.com/nft/3', 'art', user1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[3]), 'err-paused');
+        assertEquals(receiptError(block.receipts[4]), 'err-paused');
+
+        const report = decodeResponse('(err u108)', expectBool);
+        assertEquals(report.ok ? undefined : report.error, {
+            code: 108n,
+            name: 'err-paused',
+            message: 'The contract is paused',
+        });
+    },
+});
+
+// Test the raw contract name used by the client
+Clarinet.test({
+    name: "Ensure the client targets the contract deployed from Clarinet.toml",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            Tx.contractCall(
+                'charity_plaform',
+                'mint',
+                [
+                    types.ascii('https://example.com/nft/1'),
+                    types.utf8('art')
                 ],
                 user1.address
             )
         ]);
-        
-        // Check for error
-        assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result, '(err u104)'); // err-campaign-not-found (inactive)
+        assertEquals(block.receipts[0].result, '(ok u1)');
+
+        const client = new CharityPlatformClient(chain, deployer.address);
+        assertEquals(client.getTokenUri(1), 'https://example.com/nft/1');
+        assertEquals(client.getTokenMetadata(1), {
+            creator: user1.address,
+            timestamp: BigInt(block.height),
+            category: 'art',
+        });
+    },
+});
+
+// Test that donated NFTs are held in contract escrow
+Clarinet.test({
+    name: "Ensure donated NFTs are held by the contract in per-campaign custody",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Escrow Campaign",
+                description: "Escrowed NFTs",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Other Campaign",
+                description: "Nothing escrowed",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', user1.address),
+            client.mint('https://example.com/nft/2', 'art', user1.address),
+        ]);
+
+        block = chain.mineBlock([
+            client.donateNftToCampaign(1, 1, user1.address),
+            client.donateNftToCampaign(2, 1, user1.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+
+        // The contract, not the deployer, owns the donated tokens
+        assertEquals(client.getOwner(1), contractPrincipal);
+        assertEquals(client.getOwner(2), contractPrincipal);
+        assertEquals(client.getCampaignCustody(1), [1n, 2n]);
+        assertEquals(client.getCampaignCustody(2), []);
+        assertEquals(client.getNftCustody(1), 1n);
+        assertEquals(client.getNftCustody(3), undefined);
+    },
+});
+
+// Test that escrowed NFTs can only leave through campaign rules
+Clarinet.test({
+    name: "Ensure escrowed NFTs can only be sold or released by the campaign operator",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const recipient = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+        const charity = accounts.get('wallet_4')!;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Escrow Campaign",
+                description: "Escrowed NFTs",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: charity.address,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Other Campaign",
+                description: "Nothing escrowed",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: charity.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', donor.address),
+            client.mint('https://example.com/nft/2', 'art', donor.address),
+            client.listForSale(1, 5000000, donor.address),
+        ]);
+        block = chain.mineBlock([
+            client.donateNftToCampaign(1, 1, donor.address),
+            client.donateNftToCampaign(2, 1, donor.address),
+        ]);
+
+        // Neither the deployer nor the donor can move or list escrowed tokens
+        block = chain.mineBlock([
+            client.transfer(1, deployer.address, deployer.address),
+            client.transfer(1, deployer.address, deployer.address, contractPrincipal),
+            client.transfer(1, donor.address, donor.address),
+            client.listForSale(1, 1, deployer.address),
+            client.buyNft(1, buyer.address),
+            client.releaseCampaignNft(1, 1, donor.address, donor.address),
+            client.releaseCampaignNft(2, 1, deployer.address, deployer.address),
+            client.sellCampaignNft(2, 1, 1, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-not-token-owner');
+        assertEquals(receiptError(block.receipts[1]), 'err-not-token-owner');
+        assertEquals(receiptError(block.receipts[2]), 'err-not-token-owner');
+        assertEquals(receiptError(block.receipts[3]), 'err-not-token-owner');
+        assertEquals(receiptError(block.receipts[4]), 'err-not-listed'); // donor's listing was cleared
+        assertEquals(receiptError(block.receipts[5]), 'err-not-campaign-operator');
+        assertEquals(receiptError(block.receipts[6]), 'err-not-in-custody');
+        assertEquals(receiptError(block.receipts[7]), 'err-not-in-custody');
+        assertEquals(client.getOwner(1), contractPrincipal);
+
+        // The operator sells one token; the full price goes to the campaign beneficiary
+        const salePrice = 30000000;
+        block = chain.mineBlock([
+            client.sellCampaignNft(1, 1, salePrice, deployer.address),
+            client.buyNft(1, buyer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(stxTransfers(block.receipts[1]), [[buyer.address, charity.address, `${salePrice}`]]);
+        assertEquals(client.getOwner(1), buyer.address);
+        assertEquals(client.getNftCustody(1), undefined);
+        assertEquals(client.getTotalDonations(), BigInt(salePrice));
+
+        // The operator releases the other token to a chosen recipient
+        block = chain.mineBlock([
+            client.releaseCampaignNft(1, 2, recipient.address, deployer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(client.getOwner(2), recipient.address);
+        assertEquals(client.getCampaignCustody(1), []);
+        assertEquals(client.getCampaignNfts(1), [1n, 2n]);
+    },
+});
+
+// Test per-campaign payout routing
+Clarinet.test({
+    name: "Ensure donations reach the campaign beneficiary and its split recipients",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const beneficiary1 = accounts.get('wallet_3')!;
+        const beneficiary2 = accounts.get('wallet_4')!;
+        const partner = accounts.get('wallet_5')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Clean Water",
+                description: "Wells",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary1.address,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "School Books",
+                description: "Books",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary2.address,
+            }, deployer.address),
+            client.setCampaignSplits(1, [{ recipient: partner.address, share: 2500 }], deployer.address),
+            client.setCampaignSplits(2, [{ recipient: partner.address, share: 0 }], deployer.address),
+            client.setCampaignSplits(2, [
+                { recipient: partner.address, share: 6000 },
+                { recipient: deployer.address, share: 5000 },
+            ], deployer.address),
+            client.setCampaignSplits(1, [{ recipient: partner.address, share: 100 }], donor.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[3]), 'err-invalid-splits');
+        assertEquals(receiptError(block.receipts[4]), 'err-invalid-splits');
+        assertEquals(receiptError(block.receipts[5]), 'err-not-campaign-operator');
+
+        assertEquals(client.getCampaignBeneficiary(1), beneficiary1.address);
+        assertEquals(client.getCampaignBeneficiary(2), beneficiary2.address);
+        assertEquals(client.getCampaignBeneficiary(3), undefined);
+        assertEquals(client.getCampaignSplits(1), [{ recipient: partner.address, share: 2500n }]);
+        assertEquals(client.getCampaignSplits(2), []);
+
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 100000000, donor.address),
+            client.donateToCampaign(2, 40000000, donor.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+
+        assertEquals(stxTransfers(block.receipts[0]), [
+            [donor.address, partner.address, '25000000'],
+            [donor.address, beneficiary1.address, '75000000'],
+        ]);
+        assertEquals(stxTransfers(block.receipts[1]), [[donor.address, beneficiary2.address, '40000000']]);
+        assertEquals(client.getCampaignDetails(1)!.raised, 100000000n);
+        assertEquals(client.getCampaignDetails(2)!.raised, 40000000n);
+    },
+});
+
+// Test marketplace donations attributed to a campaign
+Clarinet.test({
+    name: "Ensure sellers can attribute the charity share of a sale to a campaign",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const charityAddress = 'SP000000000000000000002Q6VF78';
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Clean Water",
+                description: "Wells",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', seller.address),
+            client.mint('https://example.com/nft/2', 'art', seller.address),
+        ]);
+
+        const price = 50000000;
+        block = chain.mineBlock([
+            client.listForSale(1, price, seller.address, { campaignId: 1 }),
+            client.listForSale(2, price, seller.address),
+            client.listForSale(2, price, seller.address, { campaignId: 9 }),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[2]), 'err-campaign-inactive');
+        assertEquals(client.getListing(1)!.campaignId, 1n);
+        assertEquals(client.getListing(2)!.campaignId, undefined);
+
+        block = chain.mineBlock([
+            client.buyNft(1, buyer.address),
+            client.buyNft(2, buyer.address),
+        ]);
+        const donationTo = (receipt: typeof block.receipts[number]) => stxTransfers(receipt)
+            .filter(([, recipient]) => recipient !== seller.address);
+        assertEquals(donationTo(block.receipts[0]), [[buyer.address, beneficiary.address, `${price * 0.2}`]]);
+        assertEquals(donationTo(block.receipts[1]), [[buyer.address, charityAddress, `${price * 0.2}`]]);
+
+        // Only the attributed sale counts towards the campaign
+        assertEquals(client.getCampaignDetails(1)!.raised, BigInt(price * 0.2));
+        assertEquals(client.getListing(1), undefined);
+        assertEquals(client.getTotalDonations(), BigInt(price * 0.4));
+    },
+});
+
+// Test all-or-nothing campaigns that reach their goal
+Clarinet.test({
+    name: "Ensure all-or-nothing donations are escrowed and released to the beneficiary once the goal is met",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor1 = accounts.get('wallet_1')!;
+        const donor2 = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Community Hall",
+                description: "All or nothing",
+                goal: 100000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+        ]);
+        const deadline = client.getCampaignDetails(1)!.deadline;
+        assertEquals(client.getCampaignDetails(1)!.allOrNothing, true);
+
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 60000000, donor1.address),
+            client.donateToCampaign(1, 50000000, donor2.address),
+        ]);
+        for (const receipt of block.receipts) {
+            assertEquals(decodeReceipt(receipt, expectBool), { ok: true, value: true });
+            assertEquals(receipt.events[0].stx_transfer_event.recipient, contractPrincipal);
+        }
+        assertEquals(client.getCampaignEscrow(1), 110000000n);
+        assertEquals(client.getRefundableDonation(donor1.address, 1), 60000000n);
+
+        // Nothing can leave escrow before the deadline
+        block = chain.mineBlock([
+            client.withdrawCampaignFunds(1, beneficiary.address),
+            client.claimRefund(1, donor1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-campaign-in-progress');
+        assertEquals(receiptError(block.receipts[1]), 'err-campaign-in-progress');
+
+        chain.mineEmptyBlockUntil(Number(deadline) + 1);
+
+        block = chain.mineBlock([
+            client.claimRefund(1, donor1.address),
+            client.withdrawCampaignFunds(1, donor2.address),
+            client.withdrawCampaignFunds(1, beneficiary.address),
+            client.withdrawCampaignFunds(1, beneficiary.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-goal-met');
+        assertEquals(receiptError(block.receipts[1]), 'err-not-beneficiary');
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+        assertEquals(stxTransfers(block.receipts[2]), [[contractPrincipal, beneficiary.address, '110000000']]);
+        assertEquals(receiptError(block.receipts[3]), 'err-nothing-to-withdraw');
+        assertEquals(client.getCampaignEscrow(1), 0n);
+    },
+});
+
+// Test all-or-nothing campaigns that miss their goal
+Clarinet.test({
+    name: "Ensure donors can reclaim all-or-nothing donations when the goal is missed",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor1 = accounts.get('wallet_1')!;
+        const donor2 = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Community Hall",
+                description: "All or nothing",
+                goal: 100000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Direct",
+                description: "Keep what you raise",
+                goal: 100000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+        ]);
+        const deadline = client.getCampaignDetails(1)!.deadline;
+
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 30000000, donor1.address),
+            client.donateToCampaign(1, 10000000, donor2.address),
+            client.donateToCampaign(1, 10000000, donor2.address),
+        ]);
+        assertEquals(client.getRefundableDonation(donor2.address, 1), 20000000n);
+
+        chain.mineEmptyBlockUntil(Number(deadline) + 1);
+
+        block = chain.mineBlock([
+            client.withdrawCampaignFunds(1, beneficiary.address),
+            client.claimRefund(1, donor1.address),
+            client.claimRefund(1, donor2.address),
+            client.claimRefund(1, donor2.address),
+            client.claimRefund(1, beneficiary.address),
+            client.claimRefund(2, donor1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-goal-not-met');
+        assertEquals(stxTransfers(block.receipts[1]), [[contractPrincipal, donor1.address, '30000000']]);
+        assertEquals(stxTransfers(block.receipts[2]), [[contractPrincipal, donor2.address, '20000000']]);
+        assertEquals(receiptError(block.receipts[3]), 'err-nothing-to-refund');
+        assertEquals(receiptError(block.receipts[4]), 'err-nothing-to-refund');
+        assertEquals(receiptError(block.receipts[5]), 'err-not-all-or-nothing');
+        assertEquals(client.getCampaignEscrow(1), 0n);
+        assertEquals(client.getRefundableDonation(donor1.address, 1), 0n);
+        assertEquals(client.getCampaignStatus(1), 'failed');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure sale and auction shares for a running all-or-nothing campaign are escrowed and refunded if it fails",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const artist = accounts.get('wallet_2')!;
+        const buyer = accounts.get('wallet_3')!;
+        const beneficiary = accounts.get('wallet_4')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Community Hall",
+                description: "All or nothing",
+                goal: 1000000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', seller.address),
+            client.mint('https://example.com/nft/2', 'art', artist.address),
+            client.mint('https://example.com/nft/3', 'art', artist.address),
+        ]);
+        const deadline = client.getCampaignDetails(1)!.deadline;
+        chain.mineBlock([
+            client.listForSale(1, 50000000, seller.address, { campaignId: 1 }),
+            client.donateNftToCampaign(2, 1, artist.address),
+            client.donateNftToCampaign(3, 1, artist.address),
+            client.sellCampaignNft(1, 2, 20000000, deployer.address),
+        ]);
+        const start = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            client.buyNft(1, buyer.address),
+            client.buyNft(2, buyer.address),
+            client.createAuction(
+                { campaignId: 1, tokenId: 3, startBlock: start, endBlock: start + 1, reserve: 5000000, minIncrement: 1000000 },
+                deployer.address,
+            ),
+        ]);
+        // The charity shares stay with the contract instead of reaching the beneficiary
+        assertEquals(stxTransfers(block.receipts[0])
+            .filter(([, recipient]) => recipient !== seller.address), [[buyer.address, contractPrincipal, '10000000']]);
+        assertEquals(stxTransfers(block.receipts[1]), [[buyer.address, contractPrincipal, '20000000']]);
+
+        chain.mineBlock([client.placeBid(3, 5000000, buyer.address)]);
+        chain.mineEmptyBlockUntil(start + 2);
+        block = chain.mineBlock([client.settleAuction(3, deployer.address)]);
+        assertEquals(stxTransfers(block.receipts[0]), []);
+        assertEquals(client.getCampaignDetails(1)!.raised, 35000000n);
+        assertEquals(client.getCampaignEscrow(1), 35000000n);
+        assertEquals(client.getRefundableDonation(seller.address, 1), 10000000n);
+        assertEquals(client.getRefundableDonation(artist.address, 1), 25000000n);
+
+        // The campaign fails, and each share goes back to whoever gave it
+        chain.mineEmptyBlockUntil(Number(deadline) + 1);
+        block = chain.mineBlock([
+            client.claimRefund(1, seller.address),
+            client.claimRefund(1, artist.address),
+            client.claimRefund(1, buyer.address),
+        ]);
+        assertEquals(stxTransfers(block.receipts[0]), [[contractPrincipal, seller.address, '10000000']]);
+        assertEquals(stxTransfers(block.receipts[1]), [[contractPrincipal, artist.address, '25000000']]);
+        assertEquals(receiptError(block.receipts[2]), 'err-nothing-to-refund');
+        assertEquals(client.getCampaignEscrow(1), 0n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure repeat donations accumulate in a paginated ledger",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Library",
+                description: "Books for all",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Garden",
+                description: "Community garden",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+        ]);
+
+        const gifts = Array.from({ length: 12 }, (_, i) => (i + 1) * 1000000);
+        block = chain.mineBlock([
+            ...gifts.slice(0, 11).map((amount) => client.donateToCampaign(1, amount, donor.address)),
+            client.donateWithMemo(1, gifts[11], "In memory of Ada", donor.address),
+            client.donateToCampaign(2, 5000000, donor.address),
+        ]);
+        block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+
+        const total = gifts.reduce((sum, amount) => sum + amount, 0);
+        assertEquals(client.getUserDonationHistory(donor.address, 1), {
+            total: BigInt(total),
+            count: 12n,
+            lastBlock: BigInt(block.height),
+        });
+        assertEquals(client.getUserLifetimeDonations(donor.address), BigInt(total + 5000000));
+        assertEquals(client.getDonationRecord(donor.address, 1, 0), {
+            index: 0n,
+            amount: 1000000n,
+            block: BigInt(block.height),
+        });
+
+        // The first page is full, the second holds the remaining two
+        assertEquals(client.getDonationRecords(donor.address, 1, 0).length, 10);
+        assertEquals(client.getDonationRecords(donor.address, 1, 10), [
+            { index: 10n, amount: 11000000n, block: BigInt(block.height) },
+            { index: 11n, amount: 12000000n, block: BigInt(block.height), memo: "In memory of Ada" },
+        ]);
+
+        const records = client.getAllDonationRecords(donor.address, 1);
+        assertEquals(records.map((record) => record.amount), gifts.map(BigInt));
+        assertEquals(client.getAllDonationRecords(donor.address, 3), []);
+    },
+});
+
+// Test the marketplace listing lifecycle
+Clarinet.test({
+    name: "Ensure listings can be repriced and unlisted only by their seller",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.mint('https://example.com/nft/1', 'art', seller.address),
+            client.mint('https://example.com/nft/2', 'art', seller.address),
+        ]);
+        block = chain.mineBlock([
+            client.listForSale(1, 1000000, seller.address, { duration: 50 }),
+            client.listForSale(2, 1000000, seller.address),
+            client.listForSale(2, 1000000, seller.address, { duration: 0 }),
+        ]);
+        assertEquals(client.getListing(1), {
+            seller: seller.address,
+            price: 1000000n,
+            expiry: BigInt(block.height + 50),
+        });
+        assertEquals(receiptError(block.receipts[2]), 'err-invalid-duration');
+
+        block = chain.mineBlock([
+            client.updateListingPrice(1, 2000000, buyer.address),
+            client.updateListingPrice(1, 0, seller.address),
+            client.updateListingPrice(1, 3000000, seller.address),
+            client.unlist(2, buyer.address),
+            client.unlist(2, seller.address),
+            client.unlist(2, seller.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-not-token-owner');
+        assertEquals(receiptError(block.receipts[1]), 'err-invalid-price');
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[3]), 'err-not-token-owner');
+        assertEquals(decodeReceipt(block.receipts[4], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[5]), 'err-not-listed');
+        assertEquals(client.getPrice(1), 3000000n);
+        assertEquals(client.getListing(2), undefined);
+
+        // The buyer pays the updated price; the unlisted token cannot be bought
+        block = chain.mineBlock([
+            client.buyNft(1, buyer.address),
+            client.buyNft(2, buyer.address),
+        ]);
+        assertEquals(block.receipts[0].events[0].stx_transfer_event.amount, '2400000');
+        assertEquals(receiptError(block.receipts[1]), 'err-not-listed');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure expired listings and listings invalidated by a transfer or donation cannot be bought",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const friend = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Shelter",
+                description: "Beds",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', seller.address),
+            client.mint('https://example.com/nft/2', 'art', seller.address),
+            client.mint('https://example.com/nft/3', 'art', seller.address),
+        ]);
+        block = chain.mineBlock([
+            client.listForSale(1, 1000000, seller.address, { duration: 5 }),
+            client.listForSale(2, 1000000, seller.address),
+            client.listForSale(3, 1000000, seller.address),
+        ]);
+        const expiry = client.getListing(1)!.expiry;
+
+        block = chain.mineBlock([
+            client.transfer(2, friend.address, seller.address),
+            client.donateNftToCampaign(3, 1, seller.address),
+        ]);
+        assertEquals(client.getListing(2), undefined);
+        assertEquals(client.getListing(3), undefined);
+
+        chain.mineEmptyBlockUntil(Number(expiry) + 1);
+
+        block = chain.mineBlock([
+            client.buyNft(1, buyer.address),
+            client.updateListingPrice(1, 2000000, seller.address),
+            client.buyNft(2, buyer.address),
+            client.buyNft(3, buyer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-listing-expired');
+        assertEquals(receiptError(block.receipts[1]), 'err-listing-expired');
+        assertEquals(receiptError(block.receipts[2]), 'err-not-listed');
+        assertEquals(receiptError(block.receipts[3]), 'err-not-listed');
+        assertEquals(client.getOwner(2), friend.address);
+
+        // The seller can still clear the expired listing
+        block = chain.mineBlock([client.unlist(1, seller.address)]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
     },
-});
\ No newline at end of file
+});
+
+// Test escrowed offers
+Clarinet.test({
+    name: "Ensure offers escrow STX and pay the donation split when accepted",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const bidder1 = accounts.get('wallet_2')!;
+        const bidder2 = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+        const charityAddress = 'SP000000000000000000002Q6VF78';
+
+        let block = chain.mineBlock([
+            client.mint('https://example.com/nft/1', 'art', seller.address),
+        ]);
+
+        // Token 1 is not listed; offers are still accepted
+        block = chain.mineBlock([
+            client.makeOffer(1, 10000000, 100, bidder1.address),
+            client.makeOffer(1, 20000000, 100, bidder2.address),
+            client.makeOffer(1, 30000000, 100, bidder2.address),
+            client.makeOffer(1, 10000000, 100, seller.address),
+            client.makeOffer(1, 0, 100, bidder1.address),
+            client.makeOffer(2, 10000000, 100, bidder1.address),
+        ]);
+        assertEquals(stxTransfers(block.receipts[0]), [[bidder1.address, contractPrincipal, '10000000']]);
+        assertEquals(receiptError(block.receipts[2]), 'err-offer-exists');
+        assertEquals(receiptError(block.receipts[3]), 'err-offer-on-own-token');
+        assertEquals(receiptError(block.receipts[4]), 'err-invalid-amount');
+        assertEquals(receiptError(block.receipts[5]), 'err-token-not-found');
+        assertEquals(client.getTokenOffers(1), [
+            { bidder: bidder1.address, amount: 10000000n, expiry: BigInt(block.height + 100) },
+            { bidder: bidder2.address, amount: 20000000n, expiry: BigInt(block.height + 100) },
+        ]);
+        assertEquals(client.getTokenOfferBidders(1), [bidder1.address, bidder2.address]);
+
+        block = chain.mineBlock([
+            client.acceptOffer(1, bidder2.address, bidder1.address),
+            client.acceptOffer(1, bidder2.address, seller.address),
+            client.cancelOffer(1, bidder1.address),
+            client.cancelOffer(1, bidder1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-not-token-owner');
+        assertEquals(stxTransfers(block.receipts[1]), [
+            [contractPrincipal, seller.address, '16000000'],
+            [contractPrincipal, charityAddress, '4000000'],
+        ]);
+        assertEquals(client.getOwner(1), bidder2.address);
+        assertEquals(stxTransfers(block.receipts[2]), [[contractPrincipal, bidder1.address, '10000000']]);
+        assertEquals(receiptError(block.receipts[3]), 'err-offer-not-found');
+        assertEquals(client.getTokenOffers(1), []);
+        assertEquals(client.getTokenOfferBidders(1), []);
+        assertEquals(client.getTotalDonations(), 4000000n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure expired offers cannot be accepted but can be reclaimed",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const bidder = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.mint('https://example.com/nft/1', 'art', seller.address),
+            client.makeOffer(1, 10000000, 5, bidder.address),
+        ]);
+        const expiry = client.getOffer(1, bidder.address)!.expiry;
+        chain.mineEmptyBlockUntil(Number(expiry) + 1);
+
+        block = chain.mineBlock([
+            client.acceptOffer(1, bidder.address, seller.address),
+            client.cancelOffer(1, bidder.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-offer-expired');
+        assertEquals(stxTransfers(block.receipts[1]), [[contractPrincipal, bidder.address, '10000000']]);
+        assertEquals(client.getOwner(1), seller.address);
+        assertEquals(client.getOffer(1, bidder.address), undefined);
+    },
+});
+
+// Test campaign NFT auctions
+Clarinet.test({
+    name: "Ensure a multi-block bidding war refunds outbid wallets and settles to the campaign",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const bidder1 = accounts.get('wallet_2')!;
+        const bidder2 = accounts.get('wallet_3')!;
+        const bidder3 = accounts.get('wallet_4')!;
+        const beneficiary = accounts.get('wallet_5')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Art for Schools",
+                description: "Auction of donated art",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', donor.address),
+        ]);
+        block = chain.mineBlock([client.donateNftToCampaign(1, 1, donor.address)]);
+
+        const start = block.height + 2;
+        const end = start + 5;
+        const auction = { campaignId: 1, tokenId: 1, startBlock: start, endBlock: end, reserve: 5000000, minIncrement: 1000000 };
+        block = chain.mineBlock([
+            client.createAuction(auction, donor.address),
+            client.createAuction({ ...auction, endBlock: start }, deployer.address),
+            client.createAuction({ ...auction, startBlock: 1 }, deployer.address),
+            client.createAuction({ ...auction, minIncrement: 0 }, deployer.address),
+            client.createAuction(auction, deployer.address),
+            client.createAuction(auction, deployer.address),
+            client.placeBid(1, 5000000, bidder1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-not-campaign-operator');
+        assertEquals(receiptError(block.receipts[1]), 'err-invalid-auction-window');
+        assertEquals(receiptError(block.receipts[2]), 'err-invalid-auction-window');
+        assertEquals(receiptError(block.receipts[3]), 'err-invalid-increment');
+        assertEquals(decodeReceipt(block.receipts[4], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[5]), 'err-auction-active');
+        assertEquals(receiptError(block.receipts[6]), 'err-auction-not-started');
+
+        chain.mineEmptyBlockUntil(start);
+        block = chain.mineBlock([
+            client.placeBid(1, 4000000, bidder1.address),
+            client.placeBid(1, 5000000, bidder1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-bid-too-low');
+        assertEquals(stxTransfers(block.receipts[1]), [[bidder1.address, contractPrincipal, '5000000']]);
+
+        block = chain.mineBlock([
+            client.placeBid(1, 5500000, bidder2.address),
+            client.placeBid(1, 6000000, bidder2.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-bid-too-low');
+        assertEquals(stxTransfers(block.receipts[1]), [
+            [bidder2.address, contractPrincipal, '6000000'],
+            [contractPrincipal, bidder1.address, '5000000'],
+        ]);
+
+        block = chain.mineBlock([
+            client.placeBid(1, 10000000, bidder3.address),
+            client.placeBid(1, 10500000, bidder1.address),
+            client.placeBid(1, 11000000, bidder1.address),
+            client.sellCampaignNft(1, 1, 1000000, deployer.address),
+            client.releaseCampaignNft(1, 1, bidder2.address, deployer.address),
+            client.settleAuction(1, bidder2.address),
+        ]);
+        assertEquals(stxTransfers(block.receipts[0])[1], [contractPrincipal, bidder2.address, '6000000']);
+        assertEquals(receiptError(block.receipts[1]), 'err-bid-too-low');
+        assertEquals(stxTransfers(block.receipts[2])[1], [contractPrincipal, bidder3.address, '10000000']);
+        assertEquals(receiptError(block.receipts[3]), 'err-auction-active');
+        assertEquals(receiptError(block.receipts[4]), 'err-auction-active');
+        assertEquals(receiptError(block.receipts[5]), 'err-auction-not-ended');
+        assertEquals(client.getAuction(1)!.highestBidder, bidder1.address);
+
+        chain.mineEmptyBlockUntil(end + 1);
+        block = chain.mineBlock([
+            client.placeBid(1, 20000000, bidder2.address),
+            client.settleAuction(1, bidder2.address),
+            client.settleAuction(1, bidder2.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-auction-ended');
+        assertEquals(stxTransfers(block.receipts[1]), [[contractPrincipal, beneficiary.address, '11000000']]);
+        assertEquals(receiptError(block.receipts[2]), 'err-auction-settled');
+        assertEquals(client.getOwner(1), bidder1.address);
+        assertEquals(client.getNftCustody(1), undefined);
+        assertEquals(client.getCampaignDetails(1)!.raised, 11000000n);
+        assertEquals(client.getTotalDonations(), 11000000n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure an auction without bids leaves the NFT in campaign custody",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Art for Schools",
+                description: "Auction of donated art",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', donor.address),
+        ]);
+        block = chain.mineBlock([client.donateNftToCampaign(1, 1, donor.address)]);
+        const auction = {
+            campaignId: 1,
+            tokenId: 1,
+            startBlock: block.height + 1,
+            endBlock: block.height + 3,
+            reserve: 5000000,
+            minIncrement: 1000000,
+        };
+        block = chain.mineBlock([client.createAuction(auction, deployer.address)]);
+        chain.mineEmptyBlockUntil(auction.endBlock + 1);
+
+        block = chain.mineBlock([
+            client.settleAuction(1, donor.address),
+            client.createAuction({ ...auction, startBlock: block.height + 5, endBlock: block.height + 10 }, deployer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(block.receipts[0].events, []);
+        assertEquals(decodeReceipt(block.receipts[1], expectBool), { ok: true, value: true });
+        assertEquals(client.getNftCustody(1), 1n);
+        assertEquals(client.getCampaignDetails(1)!.raised, 0n);
+    },
+});
+
+// Test creator royalties
+Clarinet.test({
+    name: "Ensure resales split three ways between seller, creator and charity with odd prices",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const creator = accounts.get('wallet_1')!;
+        const collector = accounts.get('wallet_2')!;
+        const buyer = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+        const charityAddress = 'SP000000000000000000002Q6VF78';
+
+        let block = chain.mineBlock([
+            client.mint('https://example.com/nft/1', 'art', creator.address),
+            client.mint('https://example.com/nft/2', 'art', creator.address),
+            client.setCreatorRoyalty(500, creator.address),
+            client.setTokenRoyalty(2, 1000, creator.address),
+            client.setTokenRoyalty(2, 1000, collector.address),
+            client.setTokenRoyalty(2, 8001, creator.address),
+        ]);
+        assertEquals(receiptError(block.receipts[4]), 'err-not-creator');
+        assertEquals(receiptError(block.receipts[5]), 'err-invalid-royalty');
+        assertEquals(client.getRoyaltyBps(1), 500n);
+        assertEquals(client.getRoyaltyBps(2), 1000n);
+        assertEquals(client.royaltyInfo(1, 1000001), {
+            ok: true,
+            value: { recipient: creator.address, amount: 50000n },
+        });
+        assertEquals(client.royaltyInfo(9, 1000001).ok, false);
+
+        block = chain.mineBlock([
+            client.transfer(1, collector.address, creator.address),
+            client.transfer(2, collector.address, creator.address),
+        ]);
+        block = chain.mineBlock([
+            client.listForSale(1, 1000001, collector.address),
+            client.makeOffer(2, 999999, 10, buyer.address),
+        ]);
+        block = chain.mineBlock([
+            client.buyNft(1, buyer.address),
+            client.acceptOffer(2, buyer.address, collector.address),
+        ]);
+
+        // 20% charity and 5% royalty round down; the seller keeps the remainder
+        assertEquals(stxTransfers(block.receipts[0]), [
+            [buyer.address, collector.address, '750001'],
+            [buyer.address, creator.address, '50000'],
+            [buyer.address, charityAddress, '200000'],
+        ]);
+        // 20% charity and the 10% token override on the accepted offer
+        assertEquals(stxTransfers(block.receipts[1]), [
+            [contractPrincipal, collector.address, '700001'],
+            [contractPrincipal, creator.address, '99999'],
+            [contractPrincipal, charityAddress, '199999'],
+        ]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure royalties are capped by the charity share and paid from auctions",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const creator = accounts.get('wallet_1')!;
+        const bidder = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Art for Schools",
+                description: "Auction of donated art",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', creator.address),
+            client.setCreatorRoyalty(1000, creator.address),
+        ]);
+        block = chain.mineBlock([client.donateNftToCampaign(1, 1, creator.address)]);
+        const auction = {
+            campaignId: 1,
+            tokenId: 1,
+            startBlock: block.height + 1,
+            endBlock: block.height + 3,
+            reserve: 1000000,
+            minIncrement: 1000000,
+        };
+        block = chain.mineBlock([
+            client.createAuction(auction, deployer.address),
+            client.placeBid(1, 10000001, bidder.address),
+        ]);
+        chain.mineEmptyBlockUntil(auction.endBlock + 1);
+
+        block = chain.mineBlock([client.settleAuction(1, bidder.address)]);
+        assertEquals(stxTransfers(block.receipts[0]), [
+            [contractPrincipal, creator.address, '1000000'],
+            [contractPrincipal, beneficiary.address, '9000001'],
+        ]);
+        assertEquals(client.getCampaignDetails(1)!.raised, 9000001n);
+
+        // Raising the charity share to 95% leaves room for only 5% royalty
+        block = chain.mineBlock([client.propose({ action: 'donation-percentage', value: 95 }, deployer.address)]);
+        chain.mineEmptyBlockUntil(Number(client.getProposal(1)!.executableAt!));
+        block = chain.mineBlock([client.executeProposal(1, deployer.address)]);
+        assertEquals(client.royaltyInfo(1, 1000000), {
+            ok: true,
+            value: { recipient: creator.address, amount: 50000n },
+        });
+    },
+});
+
+// Test per-user milestone claims
+Clarinet.test({
+    name: "Ensure every qualifying donor can claim a per-donor milestone once, counting STX and NFTs",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor1 = accounts.get('wallet_1')!;
+        const donor2 = accounts.get('wallet_2')!;
+        const donor3 = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Tiers",
+                description: "Donor tiers",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.addCampaignMilestone(1, 1, "Silver donor", 10000000, "https://example.com/reward/silver", deployer.address),
+            client.mint('https://example.com/nft/1', 'art', donor2.address),
+            client.listForSale(1, 4000000, donor2.address),
+            client.addCampaignMilestone(1, 2, "Everyone", 0, "https://example.com/reward/everyone", deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[4]), 'err-invalid-milestone-target');
+        assertEquals(client.getCampaignMilestone(1, 2), undefined);
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 10000000, donor1.address),
+            client.donateToCampaign(1, 6000000, donor2.address),
+            client.donateNftToCampaign(1, 1, donor2.address),
+            client.appraiseNft(1, 4000000, deployer.address),
+            client.donateToCampaign(1, 9000000, donor3.address),
+        ]);
+        assertEquals(client.getUserContribution(donor2.address, 1), 10000000n);
+
+        block = chain.mineBlock([
+            client.checkAndClaimMilestoneReward(1, 1, donor1.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor2.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor3.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor1.address),
+            client.checkAndClaimMilestoneReward(1, 1, deployer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 1n });
+        assertEquals(decodeReceipt(block.receipts[1], expectUint), { ok: true, value: 2n });
+        assertEquals(receiptError(block.receipts[2]), 'err-milestone-target-not-met');
+        assertEquals(receiptError(block.receipts[3]), 'err-milestone-reached');
+        assertEquals(receiptError(block.receipts[4]), 'err-no-participation');
+        assertEquals(client.getCampaignMilestone(1, 1)!.claims, 2n);
+        assertEquals(client.getHolderBadges(donor2.address), [2n]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure all contributors can claim a campaign-wide milestone once raised crosses its target",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor1 = accounts.get('wallet_1')!;
+        const donor2 = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Together",
+                description: "Shared goal",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.addCampaignMilestone(1, 1, "Halfway", 20000000, "https://example.com/reward/badge", deployer.address, true),
+            client.donateToCampaign(1, 1000000, donor1.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor1.address),
+        ]);
+        assertEquals(client.getCampaignMilestone(1, 1)!.campaignWide, true);
+        assertEquals(receiptError(block.receipts[3]), 'err-milestone-target-not-met');
+
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 19000000, donor2.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor1.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor2.address),
+            client.checkAndClaimMilestoneReward(1, 1, deployer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[1], expectUint), { ok: true, value: 1n });
+        assertEquals(decodeReceipt(block.receipts[2], expectUint), { ok: true, value: 2n });
+        assertEquals(receiptError(block.receipts[3]), 'err-no-participation');
+        assertEquals(client.getMilestoneClaim(1, 1, donor1.address), 1n);
+    },
+});
+
+// Test soulbound donor badges
+Clarinet.test({
+    name: "Ensure donor badges have their own id space and cannot be traded",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const other = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Badges",
+                description: "Donor recognition",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.addCampaignMilestone(1, 1, "Bronze donor", 1000000, "https://example.com/badge/bronze", deployer.address),
+            client.setDonorBadgeUri("https://example.com/badge/donor", deployer.address),
+            client.mint('https://example.com/nft/1', 'art', donor.address),
+            client.claimDonorBadge(1, donor.address),
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.claimDonorBadge(1, donor.address),
+            client.claimDonorBadge(1, donor.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor.address),
+        ]);
+        assertEquals(receiptError(block.receipts[4]), 'err-no-participation');
+        assertEquals(decodeReceipt(block.receipts[6], expectUint), { ok: true, value: 1n });
+        assertEquals(receiptError(block.receipts[7]), 'err-badge-claimed');
+        assertEquals(decodeReceipt(block.receipts[8], expectUint), { ok: true, value: 2n });
+        assertEquals(block.receipts[8].events[0].nft_mint_event.asset_identifier, `${deployer.address}.${client.contract}::donor-badge`);
+
+        // Badges do not inflate the marketplace collection
+        assertEquals(client.getLastTokenId(), 1n);
+        assertEquals(client.getLastBadgeId(), 2n);
+        assertEquals(client.getHolderBadges(donor.address), [1n, 2n]);
+        assertEquals(client.getDonorBadge(1, donor.address), 1n);
+        assertEquals(client.getBadgeOwner(2), donor.address);
+        assertEquals(client.getBadgeMetadata(1), {
+            campaignId: 1n,
+            uri: "https://example.com/badge/donor",
+            awardedAt: BigInt(block.height),
+        });
+        assertEquals(client.getBadgeMetadata(2)!.milestoneId, 1n);
+
+        // Badge ids are not marketplace tokens, so they cannot be moved or sold
+        block = chain.mineBlock([
+            client.transfer(2, other.address, donor.address),
+            client.listForSale(2, 1000000, donor.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-token-not-found');
+        assertEquals(receiptError(block.receipts[1]), 'err-token-not-found');
+        assertEquals(client.getBadgeOwner(2), donor.address);
+    },
+});
@@ -0,0 +1,293 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient } from '../src/client.ts';
+import { parseClarityValue } from '../src/clarity.ts';
+import { decodeBlockEvents, decodeEvent, decodeReceiptEvents } from '../src/events.ts';
+
+Clarinet.test({
+    name: "Ensure minting, listing and buying emit the documented events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const artist = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const friend = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.mint('https://example.com/nft/1', 'art', artist.address),
+            client.transfer(1, friend.address, artist.address),
+        ]);
+        assertEquals(decodeBlockEvents(block), [
+            { topic: 'nft-minted', tokenId: 1n, creator: artist.address, category: 'art' },
+            { topic: 'nft-transferred', tokenId: 1n, sender: artist.address, recipient: friend.address },
+        ]);
+
+        block = chain.mineBlock([
+            client.listForSale(1, 100000000, friend.address, { duration: 10 }),
+            client.updateListingPrice(1, 50000000, friend.address),
+            client.buyNft(1, buyer.address),
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[0]), [{
+            topic: 'nft-listed',
+            tokenId: 1n,
+            seller: friend.address,
+            price: 100000000n,
+            expiry: BigInt(block.height + 10),
+        }]);
+        assertEquals(decodeReceiptEvents(block.receipts[1]), [
+            { topic: 'listing-updated', tokenId: 1n, seller: friend.address, price: 50000000n },
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[2]), [
+            { topic: 'nft-transferred', tokenId: 1n, sender: friend.address, recipient: buyer.address },
+            {
+                topic: 'nft-sold',
+                tokenId: 1n,
+                seller: friend.address,
+                buyer: buyer.address,
+                price: 50000000n,
+                royalty: 0n,
+                donation: 10000000n,
+            },
+        ]);
+
+        block = chain.mineBlock([
+            client.listForSale(1, 100000000, buyer.address),
+            client.unlist(1, buyer.address),
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[1]), [{ topic: 'nft-unlisted', tokenId: 1n, seller: buyer.address }]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure campaign donations and milestone claims emit the documented events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const beneficiary = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Events",
+                description: "Emits events",
+                goal: 100000000,
+                duration: 100,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.addCampaignMilestone(1, 1, "First gift", 1000000, "https://example.com/badge/1", deployer.address),
+            client.mint('https://example.com/nft/1', 'art', donor.address),
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[0]), [{
+            topic: 'campaign-created',
+            campaignId: 1n,
+            manager: deployer.address,
+            beneficiary: beneficiary.address,
+            goal: 100000000n,
+            deadline: BigInt(block.height + 100),
+            status: 'active',
+        }]);
+        assertEquals(decodeReceiptEvents(block.receipts[1]), [{
+            topic: 'milestone-added',
+            campaignId: 1n,
+            milestoneId: 1n,
+            targetAmount: 1000000n,
+            campaignWide: false,
+        }]);
+
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.donateWithMemo(1, 2000000, "For the wells", donor.address),
+            client.donateNftToCampaign(1, 1, donor.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor.address),
+        ]);
+        assertEquals(decodeBlockEvents(block), [
+            { topic: 'campaign-credited', campaignId: 1n, amount: 1000000n, raised: 1000000n },
+            { topic: 'campaign-donation', campaignId: 1n, donor: donor.address, amount: 1000000n },
+            { topic: 'campaign-credited', campaignId: 1n, amount: 2000000n, raised: 3000000n },
+            { topic: 'campaign-donation', campaignId: 1n, donor: donor.address, amount: 2000000n, memo: "For the wells" },
+            { topic: 'nft-transferred', tokenId: 1n, sender: donor.address, recipient: contractPrincipal },
+            { topic: 'nft-donated', campaignId: 1n, tokenId: 1n, donor: donor.address },
+            { topic: 'badge-awarded', badgeId: 1n, campaignId: 1n, milestoneId: 1n, recipient: donor.address },
+            { topic: 'milestone-claimed', campaignId: 1n, milestoneId: 1n, claimant: donor.address, badgeId: 1n },
+        ]);
+
+        block = chain.mineBlock([
+            client.pauseCampaign(1, deployer.address),
+            client.extendDeadline(1, 50, deployer.address),
+            client.endCampaign(1, deployer.address),
+        ]);
+        const deadline = client.getCampaignDetails(1)!.deadline;
+        assertEquals(decodeBlockEvents(block), [
+            { topic: 'campaign-status-changed', campaignId: 1n, status: 'paused' },
+            { topic: 'campaign-deadline-extended', campaignId: 1n, deadline },
+            { topic: 'campaign-status-changed', campaignId: 1n, status: 'failed' },
+        ]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure role, ownership and governance changes emit the documented events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const admin = accounts.get('wallet_1')!;
+        const charity = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.grantRole('admin', admin.address, deployer.address),
+            client.revokeRole('admin', admin.address, deployer.address),
+            client.grantRole('admin', admin.address, admin.address),
+            client.setDonorBadgeUri("https://example.com/badge", deployer.address),
+            client.togglePause(deployer.address),
+            client.transferOwnership(admin.address, deployer.address),
+            client.acceptOwnership(admin.address),
+            client.propose({ action: 'charity-address', account: charity.address }, deployer.address),
+        ]);
+        assertEquals(decodeBlockEvents(block), [
+            { topic: 'role-granted', role: 'admin', account: admin.address, sender: deployer.address },
+            { topic: 'role-revoked', role: 'admin', account: admin.address, sender: deployer.address },
+            { topic: 'donor-badge-uri-set', uri: "https://example.com/badge", sender: deployer.address },
+            { topic: 'pause-toggled', paused: true, sender: deployer.address },
+            { topic: 'ownership-offered', owner: deployer.address, pendingOwner: admin.address },
+            { topic: 'ownership-transferred', previousOwner: deployer.address, owner: admin.address },
+            {
+                topic: 'proposal-created',
+                proposalId: 1n,
+                proposer: deployer.address,
+                action: 'charity-address',
+                value: 0n,
+                target: charity.address,
+            },
+            {
+                topic: 'proposal-approved',
+                proposalId: 1n,
+                signer: deployer.address,
+                approvals: 1n,
+                executableAt: BigInt(block.height + 144),
+            },
+        ]);
+
+        chain.mineEmptyBlockUntil(Number(client.getProposal(1)!.executableAt!));
+        block = chain.mineBlock([client.executeProposal(1, admin.address)]);
+        assertEquals(decodeBlockEvents(block), [{
+            topic: 'proposal-executed',
+            proposalId: 1n,
+            action: 'charity-address',
+            value: 0n,
+            target: charity.address,
+        }]);
+
+        block = chain.mineBlock([
+            client.propose({ action: 'timelock', value: 10 }, deployer.address),
+            client.cancelProposal(2, deployer.address),
+            client.setRequiredAppraisals(2, admin.address),
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[1]), [
+            { topic: 'proposal-cancelled', proposalId: 2n, sender: deployer.address },
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[2]), [
+            { topic: 'required-appraisals-set', count: 2n, sender: admin.address },
+        ]);
+
+        assertThrows(() => decodeEvent(parseClarityValue('{topic: "unknown"}')), TypeError, 'Unknown event topic');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure royalties, offers, bids, splits and all-or-nothing settlement emit the documented events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const artist = accounts.get('wallet_1')!;
+        const bidder1 = accounts.get('wallet_2')!;
+        const bidder2 = accounts.get('wallet_3')!;
+        const beneficiary = accounts.get('wallet_4')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            ...["Reached", "Missed"].map((name) => client.createCharityCampaign({
+                name,
+                description: "All or nothing",
+                goal: 10000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address)),
+            client.mint('https://example.com/nft/1', 'art', artist.address),
+            client.setCreatorRoyalty(500, artist.address),
+            client.setTokenRoyalty(1, 1000, artist.address),
+            client.setCampaignSplits(1, [{ recipient: artist.address, share: 2500 }], deployer.address),
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[3]), [
+            { topic: 'creator-royalty-set', creator: artist.address, bps: 500n },
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[4]), [
+            { topic: 'token-royalty-set', tokenId: 1n, creator: artist.address, bps: 1000n },
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[5]), [{
+            topic: 'campaign-splits-set',
+            campaignId: 1n,
+            splits: [{ recipient: artist.address, share: 2500n }],
+            sender: deployer.address,
+        }]);
+
+        block = chain.mineBlock([
+            client.makeOffer(1, 3000000, 10, bidder1.address),
+            client.makeOffer(1, 4000000, 10, bidder2.address),
+            client.cancelOffer(1, bidder1.address),
+            client.acceptOffer(1, bidder2.address, artist.address),
+            client.donateToCampaign(1, 10000000, bidder1.address),
+            client.donateToCampaign(2, 2000000, bidder1.address),
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[0]), [{
+            topic: 'offer-made',
+            tokenId: 1n,
+            bidder: bidder1.address,
+            amount: 3000000n,
+            expiry: BigInt(block.height + 10),
+        }]);
+        assertEquals(decodeReceiptEvents(block.receipts[2]), [
+            { topic: 'offer-cancelled', tokenId: 1n, bidder: bidder1.address, amount: 3000000n },
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[3]).map((event) => event.topic),
+            ['offer-accepted', 'nft-transferred', 'nft-sold']);
+        assertEquals(decodeReceiptEvents(block.receipts[3])[0],
+            { topic: 'offer-accepted', tokenId: 1n, bidder: bidder2.address, amount: 4000000n });
+
+        // The NFT goes into campaign custody and up for auction
+        block = chain.mineBlock([
+            client.donateNftToCampaign(1, 1, bidder2.address),
+            client.createAuction({
+                campaignId: 1,
+                tokenId: 1,
+                startBlock: chain.blockHeight + 1,
+                endBlock: chain.blockHeight + 5,
+                reserve: 1000000,
+                minIncrement: 100000,
+            }, deployer.address),
+        ]);
+        block = chain.mineBlock([
+            client.placeBid(1, 1000000, bidder1.address),
+            client.placeBid(1, 1500000, bidder2.address),
+        ]);
+        assertEquals(decodeBlockEvents(block), [
+            { topic: 'bid-placed', tokenId: 1n, bidder: bidder1.address, amount: 1000000n },
+            { topic: 'bid-placed', tokenId: 1n, bidder: bidder2.address, amount: 1500000n },
+        ]);
+
+        chain.mineEmptyBlockUntil(Number(client.getCampaignDetails(1)!.deadline) + 1);
+        block = chain.mineBlock([
+            client.withdrawCampaignFunds(1, beneficiary.address),
+            client.claimRefund(2, bidder1.address),
+        ]);
+        // Settling records the outcome the deadline decided
+        assertEquals(decodeReceiptEvents(block.receipts[0]), [
+            { topic: 'campaign-status-changed', campaignId: 1n, status: 'succeeded' },
+            { topic: 'campaign-funds-withdrawn', campaignId: 1n, beneficiary: beneficiary.address, amount: 10000000n },
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[1]), [
+            { topic: 'campaign-status-changed', campaignId: 2n, status: 'failed' },
+            { topic: 'refund-claimed', campaignId: 2n, donor: bidder1.address, amount: 2000000n },
+        ]);
+    },
+});
@@ -0,0 +1,211 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt, GovernanceChange } from '../src/client.ts';
+import { expectBool, expectUint } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+
+// Proposes and executes changes while the deployer is still the only signer
+function bootstrap(chain: Chain, client: CharityPlatformClient, deployer: string, changes: GovernanceChange[]) {
+    chain.mineBlock(changes.map((change) => client.propose(change, deployer)));
+    const pending = client.getPendingProposals();
+    chain.mineEmptyBlockUntil(Number(pending[pending.length - 1].executableAt!));
+    const block = chain.mineBlock(pending.map((proposal) => client.executeProposal(proposal.id, deployer)));
+    block.receipts.forEach((receipt) => assertEquals(receipt.result, '(ok true)'));
+}
+
+Clarinet.test({
+    name: "Ensure a 2-of-3 signer set can propose, approve, wait out the timelock and execute",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const signer1 = accounts.get('wallet_1')!;
+        const signer2 = accounts.get('wallet_2')!;
+        const outsider = accounts.get('wallet_3')!;
+        const newCharity = accounts.get('wallet_4')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        assertEquals(client.getGovernanceSigners(), [deployer.address]);
+        assertEquals(client.getTimelockBlocks(), 144n);
+
+        bootstrap(chain, client, deployer.address, [
+            { action: 'add-signer', account: signer1.address },
+            { action: 'add-signer', account: signer2.address },
+            { action: 'timelock', value: 10 },
+        ]);
+        bootstrap(chain, client, deployer.address, [{ action: 'threshold', value: 2 }]);
+        assertEquals(client.getGovernanceSigners(), [deployer.address, signer1.address, signer2.address]);
+        assertEquals(client.getApprovalThreshold(), 2n);
+        assertEquals(client.getTimelockBlocks(), 10n);
+        assertEquals(client.getPendingProposals(), []);
+
+        // Propose: one approval is not enough
+        let block = chain.mineBlock([
+            client.propose({ action: 'charity-address', account: newCharity.address }, signer1.address),
+            client.propose({ action: 'charity-address', account: outsider.address }, outsider.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 5n });
+        assertEquals(receiptError(block.receipts[1]), 'err-not-signer');
+        assertEquals(client.getPendingProposals(), [{
+            id: 5n,
+            action: 'charity-address',
+            value: 0n,
+            target: newCharity.address,
+            proposer: signer1.address,
+            approvals: 1n,
+            executed: false,
+            cancelled: false,
+        }]);
+
+        // Approve: the second signature starts the timelock
+        block = chain.mineBlock([
+            client.executeProposal(5, outsider.address),
+            client.approveProposal(5, outsider.address),
+            client.approveProposal(5, signer1.address),
+            client.approveProposal(5, signer2.address),
+            client.executeProposal(5, outsider.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-not-approved');
+        assertEquals(receiptError(block.receipts[1]), 'err-not-signer');
+        assertEquals(receiptError(block.receipts[2]), 'err-already-approved');
+        assertEquals(decodeReceipt(block.receipts[3], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[4]), 'err-timelock-active');
+        assertEquals(client.hasApproved(5, signer2.address), true);
+        assertEquals(client.getProposal(5)!.executableAt, BigInt(block.height + 10));
+
+        // Wait, then anyone can execute
+        chain.mineEmptyBlockUntil(block.height + 10);
+        block = chain.mineBlock([
+            client.executeProposal(5, outsider.address),
+            client.executeProposal(5, outsider.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[1]), 'err-proposal-closed');
+        assertEquals(client.getCharityAddress(), newCharity.address);
+        assertEquals(client.getProposal(5)!.executed, true);
+        assertEquals(client.getPendingProposals(), []);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure any signer can cancel an approved proposal during its timelock",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const signer1 = accounts.get('wallet_1')!;
+        const outsider = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        bootstrap(chain, client, deployer.address, [{ action: 'add-signer', account: signer1.address }]);
+
+        let block = chain.mineBlock([
+            client.propose({ action: 'donation-percentage', value: 50 }, deployer.address),
+            client.cancelProposal(2, outsider.address),
+            client.cancelProposal(2, signer1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-not-signer');
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+
+        chain.mineEmptyBlockUntil(block.height + 144);
+        block = chain.mineBlock([
+            client.executeProposal(2, deployer.address),
+            client.approveProposal(2, signer1.address),
+            client.cancelProposal(2, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-proposal-closed');
+        assertEquals(receiptError(block.receipts[1]), 'err-proposal-closed');
+        assertEquals(receiptError(block.receipts[2]), 'err-proposal-closed');
+        assertEquals(client.getProposal(2)!.cancelled, true);
+        assertEquals(client.getDonationPercentage(), 20n);
+        assertEquals(client.getPendingProposals(), []);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure proposals that could not be applied are rejected",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const signer1 = accounts.get('wallet_1')!;
+        const outsider = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        const block = chain.mineBlock([
+            client.propose({ action: 'threshold', value: 0 }, deployer.address),
+            client.propose({ action: 'threshold', value: 2 }, deployer.address),
+            client.propose({ action: 'timelock', value: 0 }, deployer.address),
+            client.propose({ action: 'add-signer', account: deployer.address }, deployer.address),
+            client.propose({ action: 'remove-signer', account: outsider.address }, deployer.address),
+            // Removing the only signer would leave fewer signers than the threshold
+            client.propose({ action: 'remove-signer', account: deployer.address }, deployer.address),
+            client.propose({ action: 'donation-percentage', value: 101 }, deployer.address),
+            client.propose({ action: 'add-signer', account: signer1.address }, deployer.address),
+        ]);
+        block.receipts.slice(0, 6).forEach((receipt) => assertEquals(receiptError(receipt), 'err-invalid-proposal'));
+        assertEquals(receiptError(block.receipts[6]), 'err-invalid-percentage');
+        assertEquals(decodeReceipt(block.receipts[7], expectUint), { ok: true, value: 1n });
+    },
+});
+
+Clarinet.test({
+    name: "Ensure execution recounts approvals against the current threshold and signers",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const signer1 = accounts.get('wallet_1')!;
+        const signer2 = accounts.get('wallet_2')!;
+        const charity1 = accounts.get('wallet_3')!;
+        const charity2 = accounts.get('wallet_4')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        bootstrap(chain, client, deployer.address, [
+            { action: 'add-signer', account: signer1.address },
+            { action: 'add-signer', account: signer2.address },
+            { action: 'timelock', value: 10 },
+        ]);
+
+        // Approved by one signer while the threshold is still one
+        let block = chain.mineBlock([
+            client.propose({ action: 'charity-address', account: charity1.address }, signer1.address),
+            client.propose({ action: 'threshold', value: 2 }, deployer.address),
+        ]);
+        assertEquals(client.getProposal(4)!.executableAt, BigInt(block.height + 10));
+        chain.mineEmptyBlockUntil(block.height + 10);
+        block = chain.mineBlock([
+            client.executeProposal(5, deployer.address),
+            client.executeProposal(4, deployer.address),
+        ]);
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(receiptError(block.receipts[1]), 'err-not-approved');
+
+        // Reaching the raised threshold starts the timelock again
+        block = chain.mineBlock([
+            client.approveProposal(4, signer2.address),
+            client.executeProposal(4, deployer.address),
+        ]);
+        assertEquals(client.getProposal(4)!.executableAt, BigInt(block.height + 10));
+        assertEquals(receiptError(block.receipts[1]), 'err-timelock-active');
+        chain.mineEmptyBlockUntil(block.height + 10);
+        block = chain.mineBlock([client.executeProposal(4, deployer.address)]);
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(client.getCharityAddress(), charity1.address);
+
+        // An approval from a signer removed since no longer counts
+        block = chain.mineBlock([
+            client.propose({ action: 'charity-address', account: charity2.address }, signer1.address),
+            client.approveProposal(6, signer2.address),
+            client.propose({ action: 'remove-signer', account: signer2.address }, deployer.address),
+            client.approveProposal(7, signer1.address),
+        ]);
+        chain.mineEmptyBlockUntil(block.height + 10);
+        block = chain.mineBlock([
+            client.executeProposal(7, deployer.address),
+            client.executeProposal(6, deployer.address),
+            client.approveProposal(6, deployer.address),
+            client.executeProposal(6, deployer.address),
+        ]);
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(receiptError(block.receipts[1]), 'err-not-approved');
+        assertEquals(receiptError(block.receipts[3]), 'err-timelock-active');
+        chain.mineEmptyBlockUntil(block.height + 10);
+        block = chain.mineBlock([client.executeProposal(6, deployer.address)]);
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(client.getGovernanceSigners(), [deployer.address, signer1.address]);
+        assertEquals(client.getCharityAddress(), charity2.address);
+    },
+});
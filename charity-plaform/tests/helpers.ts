@@ -0,0 +1,37 @@
+import { Block } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+
+type Receipt = Block['receipts'][number];
+
+// [sender, recipient, amount] with the amount as Clarinet prints it
+export type Transfer = [string, string, string];
+
+interface AssetTransfer {
+    sender: string;
+    recipient: string;
+    amount: string;
+}
+
+// The part of a receipt event the transfer helpers read
+interface AssetEvent {
+    type: string;
+    stx_transfer_event?: AssetTransfer;
+    ft_transfer_event?: AssetTransfer;
+}
+
+function transfersOf(receipt: Receipt, type: 'stx_transfer_event' | 'ft_transfer_event'): Transfer[] {
+    const events: AssetEvent[] = receipt.events;
+    return events.flatMap((event): Transfer[] => {
+        const transfer = event.type === type ? event[type] : undefined;
+        return transfer ? [[transfer.sender, transfer.recipient, transfer.amount]] : [];
+    });
+}
+
+// STX transfers in the receipt, in the order the contract made them
+export function stxTransfers(receipt: Receipt): Transfer[] {
+    return transfersOf(receipt, 'stx_transfer_event');
+}
+
+// SIP-010 transfers in the receipt, whichever token they moved
+export function tokenTransfers(receipt: Receipt): Transfer[] {
+    return transfersOf(receipt, 'ft_transfer_event');
+}
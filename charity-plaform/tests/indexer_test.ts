@@ -0,0 +1,325 @@
+import { Clarinet, Chain, Account, Tx } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient } from '../src/client.ts';
+import { CharityIndexer, FileStore, JournalFs, blockFromClarinet, campaignStatusAt } from '../src/indexer.ts';
+
+// Keeps journals in memory, so the tests need no file system permissions
+class MemoryFs implements JournalFs {
+    private files = new Map<string, string>();
+
+    read(path: string): string | undefined {
+        return this.files.get(path);
+    }
+
+    write(path: string, text: string, options: { append: boolean }) {
+        this.files.set(path, (options.append ? this.files.get(path) ?? '' : '') + text);
+    }
+}
+
+// Mines each block and feeds it to the indexer, like a node subscription would
+const replay = (chain: Chain, indexer: CharityIndexer) => (txs: Tx[]) => {
+    const block = chain.mineBlock(txs);
+    indexer.ingest(blockFromClarinet(block));
+    return block;
+};
+
+function assertMatchesChain(indexer: CharityIndexer, client: CharityPlatformClient, chain: Chain) {
+    const campaignCount = Number(client.getCampaignCount());
+    assertEquals(indexer.campaigns().length, campaignCount);
+    for (let id = 1n; id <= BigInt(campaignCount); id++) {
+        const onChain = client.getCampaignDetails(id)!;
+        const funding = client.getCampaignFunding(id)!;
+        const row = indexer.campaign(id)!;
+        assertEquals(
+            [row.manager, row.beneficiary, row.goal, row.raised, row.matched, row.roundMatched, row.deadline],
+            [
+                onChain.manager,
+                onChain.beneficiary,
+                onChain.goal,
+                onChain.raised,
+                funding.matched,
+                funding.roundMatched,
+                onChain.deadline,
+            ],
+        );
+        assertEquals(campaignStatusAt(row, chain.blockHeight), onChain.status);
+        assertEquals(row.splits, client.getCampaignSplits(id));
+        for (const milestone of indexer.milestones(id)) {
+            const stored = client.getCampaignMilestone(id, milestone.milestoneId)!;
+            assertEquals(
+                [milestone.targetAmount, milestone.campaignWide, milestone.claims],
+                [stored.targetAmount, stored.campaignWide, stored.claims],
+            );
+        }
+        for (const donor of new Set(indexer.donations({ campaignId: id }).map((row) => row.donor))) {
+            const stx = indexer.donations({ campaignId: id, donor })
+                .filter((row) => row.tokenId === undefined && row.token === undefined);
+            assertEquals(
+                stx.map((row) => [row.amount, row.memo]),
+                client.getAllDonationRecords(donor, id).map((record) => [record.amount, record.memo]),
+            );
+        }
+    }
+    for (let tokenId = 1n; tokenId <= client.getLastTokenId(); tokenId++) {
+        assertEquals(indexer.ownerOf(tokenId), client.getOwner(tokenId));
+        const listing = indexer.listing(tokenId);
+        assertEquals(listing && {
+            seller: listing.seller,
+            price: listing.price,
+            expiry: listing.expiry,
+            ...(listing.campaignId === undefined ? {} : { campaignId: listing.campaignId }),
+            ...(listing.paymentToken === undefined ? {} : { paymentToken: listing.paymentToken }),
+        }, client.getListing(tokenId));
+        assertEquals(
+            indexer.offers(tokenId).map((row) => ({ bidder: row.bidder, amount: row.amount, expiry: row.expiry })),
+            client.getTokenOffers(tokenId),
+        );
+        assertEquals(indexer.royaltyBps(tokenId), client.getRoyaltyBps(tokenId));
+    }
+    for (const row of indexer.proposals()) {
+        const proposal = client.getProposal(row.id)!;
+        assertEquals(
+            [row.proposer, row.action, row.value, row.target, BigInt(row.approvers.length), row.executableAt],
+            [proposal.proposer, proposal.action, proposal.value, proposal.target, proposal.approvals, proposal.executableAt],
+        );
+        assertEquals([row.status === 'executed', row.status === 'cancelled'], [proposal.executed, proposal.cancelled]);
+    }
+    assertEquals(indexer.requiredAppraisals, client.getRequiredAppraisals());
+}
+
+Clarinet.test({
+    name: "Ensure the indexer rebuilds marketplace state from replayed sales, offers and transfers",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const bidder = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const indexer = new CharityIndexer(new FileStore('index.jsonl', new MemoryFs()));
+        const mine = replay(chain, indexer);
+
+        // Scenarios from charity_plaform_test.ts: transfer, purchase with the
+        // donation split, campaign-attributed sale, repricing and offers
+        mine([
+            client.createCharityCampaign({
+                name: "Clean Water",
+                description: "Wells",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', seller.address),
+            client.mint('https://example.com/nft/2', 'art', seller.address),
+            client.mint('https://example.com/nft/3', 'music', seller.address),
+            client.mint('https://example.com/nft/4', 'music', seller.address),
+            client.setCreatorRoyalty(300, seller.address),
+            client.setTokenRoyalty(2, 700, seller.address),
+        ]);
+        mine([
+            client.transfer(4, buyer.address, seller.address),
+            client.listForSale(1, 100000000, seller.address),
+            client.listForSale(2, 50000000, seller.address, { campaignId: 1 }),
+            client.listForSale(3, 70000000, seller.address, { duration: 5 }),
+            client.makeOffer(3, 30000000, 100, bidder.address),
+            client.makeOffer(3, 20000000, 100, buyer.address),
+            client.makeOffer(1, 10000000, 100, bidder.address),
+        ]);
+        mine([
+            client.buyNft(1, buyer.address),
+            client.buyNft(2, bidder.address),
+            client.updateListingPrice(3, 60000000, seller.address),
+        ]);
+        assertMatchesChain(indexer, client, chain);
+
+        mine([client.acceptOffer(3, bidder.address, seller.address), client.cancelOffer(1, bidder.address)]);
+        assertEquals(indexer.offers().map((row) => [row.tokenId, row.bidder]), [[3n, buyer.address]]);
+        mine([client.listForSale(4, 10000000, buyer.address), client.unlist(4, buyer.address)]);
+        assertMatchesChain(indexer, client, chain);
+
+        assertEquals(indexer.sales().map((sale) => [sale.tokenId, sale.buyer, sale.price, sale.donation, sale.campaignId]), [
+            [1n, buyer.address, 100000000n, 20000000n, undefined],
+            [2n, bidder.address, 50000000n, 10000000n, 1n],
+            [3n, bidder.address, 30000000n, 6000000n, undefined],
+        ]);
+        assertEquals(indexer.sales({ campaignId: 1n }).length, 1);
+        assertEquals(indexer.ownershipHistory(3n).map((row) => row.owner), [seller.address, bidder.address]);
+        assertEquals(indexer.listings(), []);
+
+        // Governance: one proposal executed, one cancelled, one left pending
+        mine([
+            client.propose({ action: 'add-signer', account: seller.address }, deployer.address),
+            client.propose({ action: 'timelock', value: 10 }, deployer.address),
+            client.cancelProposal(2, deployer.address),
+            client.setRequiredAppraisals(3, deployer.address),
+        ]);
+        chain.mineEmptyBlockUntil(Number(indexer.proposal(1n)!.executableAt!));
+        mine([client.executeProposal(1, buyer.address)]);
+        mine([
+            client.propose({ action: 'threshold', value: 2 }, seller.address),
+            client.approveProposal(3, deployer.address),
+        ]);
+        assertEquals(indexer.proposals().map((row) => [row.status, row.approvers]), [
+            ['executed', [deployer.address]],
+            ['cancelled', [deployer.address]],
+            ['pending', [seller.address, deployer.address]],
+        ]);
+        assertMatchesChain(indexer, client, chain);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure the indexer rebuilds campaigns and donations from replayed campaign flows",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor1 = accounts.get('wallet_1')!;
+        const donor2 = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+        const indexer = new CharityIndexer(new FileStore('index.jsonl', new MemoryFs()));
+        const mine = replay(chain, indexer);
+
+        // Scenarios from charity_plaform_test.ts: donations, memos, NFT
+        // donations, all-or-nothing refunds and ending a campaign
+        mine([
+            client.createCharityCampaign({
+                name: "Donation Test",
+                description: "Testing donations",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Community Hall",
+                description: "All or nothing",
+                goal: 100000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Roof",
+                description: "All or nothing, reached",
+                goal: 10000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', donor1.address),
+            client.setCampaignSplits(1, [{ recipient: donor2.address, share: 1000 }], deployer.address),
+            client.addCampaignMilestone(1, 1, "First gift", 1000000, "https://example.com/badge/1", deployer.address),
+        ]);
+        mine([
+            client.donateToCampaign(1, 100000000, donor1.address),
+            client.donateWithMemo(1, 2000000, "For the library", donor1.address),
+            client.donateToCampaign(2, 30000000, donor1.address),
+            client.donateToCampaign(2, 10000000, donor2.address),
+            client.donateToCampaign(3, 10000000, donor2.address),
+            client.listForSale(1, 5000000, donor1.address),
+            client.checkAndClaimMilestoneReward(1, 1, donor1.address),
+        ]);
+        mine([client.donateNftToCampaign(1, 1, donor1.address)]);
+        assertEquals(indexer.donations({ campaignId: 1n }).map((row) => [row.amount, row.pending]),
+            [[100000000n, undefined], [2000000n, undefined], [0n, true]]);
+        mine([client.appraiseNft(1, 5000000, deployer.address)]);
+        // A campaign-custody listing names the campaign in the event and on chain alike
+        mine([client.sellCampaignNft(1, 1, 8000000, deployer.address)]);
+        assertEquals(indexer.listing(1n)!.campaignId, 1n);
+        assertMatchesChain(indexer, client, chain);
+
+        mine([client.createAuction({
+            campaignId: 1,
+            tokenId: 1,
+            startBlock: chain.blockHeight + 1,
+            endBlock: chain.blockHeight + 100,
+            reserve: 1000000,
+            minIncrement: 100000,
+        }, deployer.address)]);
+        mine([client.placeBid(1, 1000000, donor2.address), client.placeBid(1, 1200000, donor1.address)]);
+        assertEquals(indexer.bids(1n).map((row) => [row.bidder, row.amount]),
+            [[donor2.address, 1000000n], [donor1.address, 1200000n]]);
+
+        chain.mineEmptyBlockUntil(Number(client.getCampaignDetails(2)!.deadline) + 1);
+        assertEquals(indexer.campaign(2n)!.status, 'active');
+        assertEquals(campaignStatusAt(indexer.campaign(2n)!, chain.blockHeight), 'failed');
+        mine([
+            client.claimRefund(2, donor1.address),
+            client.withdrawCampaignFunds(3, beneficiary.address),
+            client.endCampaign(1, deployer.address),
+        ]);
+        assertMatchesChain(indexer, client, chain);
+        assertEquals([indexer.campaign(2n)!.refunded, indexer.campaign(2n)!.withdrawn], [30000000n, 0n]);
+        assertEquals([indexer.campaign(3n)!.refunded, indexer.campaign(3n)!.withdrawn], [0n, 10000000n]);
+
+        assertEquals(indexer.donations({ campaignId: 1n }).map((row) => [row.amount, row.memo, row.tokenId]), [
+            [100000000n, undefined, undefined],
+            [2000000n, "For the library", undefined],
+            [5000000n, undefined, 1n],
+        ]);
+        assertEquals(indexer.ownerOf(1n), contractPrincipal);
+        // The refund and the withdrawal record each campaign's outcome
+        assertEquals([indexer.campaign(2n)!.status, indexer.campaign(3n)!.status], ['failed', 'succeeded']);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure the indexer rolls back to any height and reloads from its file",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const artist = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const fs = new MemoryFs();
+        const path = 'index.jsonl';
+        const indexer = new CharityIndexer(new FileStore(path, fs));
+        const mine = replay(chain, indexer);
+
+        const first = mine([
+            client.createCharityCampaign({
+                name: "Rollback",
+                description: "Forked away",
+                goal: 100000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', artist.address),
+            client.listForSale(1, 10000000, artist.address),
+        ]);
+        const second = mine([
+            client.buyNft(1, buyer.address),
+            client.donateToCampaign(1, 1000000, buyer.address),
+        ]);
+        const third = mine([client.donateToCampaign(1, 3000000, artist.address)]);
+
+        const snapshot = (target: CharityIndexer) => ({
+            campaigns: target.campaigns(),
+            donations: target.donations(),
+            listings: target.listings(),
+            sales: target.sales(),
+            history: target.ownershipHistory(1n),
+        });
+        const final = snapshot(indexer);
+        assertEquals(final.campaigns[0].raised, 4000000n);
+
+        indexer.rollback(first.height);
+        assertEquals(indexer.tip, first.height);
+        // The journal is rewritten with the one block it keeps
+        assertEquals(fs.read(path)!.trim().split('\n').length, 1);
+        assertEquals(indexer.sales(), []);
+        assertEquals(indexer.donations(), []);
+        assertEquals(indexer.listing(1n)!.price, 10000000n);
+        assertEquals(indexer.ownerOf(1n), artist.address);
+        assertEquals(indexer.campaign(1n)!.raised, 0n);
+
+        // The canonical chain comes back; a block at an indexed height replaces it
+        indexer.ingest(blockFromClarinet(second));
+        indexer.ingest(blockFromClarinet(third));
+        indexer.ingest(blockFromClarinet(third));
+        assertEquals(snapshot(indexer), final);
+
+        const reloaded = new CharityIndexer(new FileStore(path, fs));
+        assertEquals(reloaded.tip, third.height);
+        assertEquals(snapshot(reloaded), final);
+        assertMatchesChain(reloaded, client, chain);
+    },
+});
@@ -0,0 +1,151 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt } from '../src/client.ts';
+import { expectUint } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+import { decodeReceiptEvents } from '../src/events.ts';
+import { stxTransfers } from './helpers.ts';
+
+Clarinet.test({
+    name: "Ensure several sponsors match donations until their caps run out and reclaim the rest",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const sponsor1 = accounts.get('wallet_1')!;
+        const sponsor2 = accounts.get('wallet_2')!;
+        const donor1 = accounts.get('wallet_3')!;
+        const donor2 = accounts.get('wallet_4')!;
+        const beneficiary = accounts.get('wallet_5')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Matched",
+                description: "Sponsors double every gift",
+                goal: 1000000000,
+                duration: 20,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            // One for one up to 5 STX, and half of every gift up to 10 STX
+            client.fundMatchingPool(1, 10000, 5000000, sponsor1.address),
+            client.fundMatchingPool(1, 5000, 10000000, sponsor2.address),
+            client.fundMatchingPool(1, 10000, 1000000, sponsor1.address),
+            client.fundMatchingPool(1, 0, 1000000, donor1.address),
+            client.fundMatchingPool(1, 10000, 0, donor1.address),
+            client.fundMatchingPool(2, 10000, 1000000, donor1.address),
+        ]);
+        assertEquals(stxTransfers(block.receipts[1]), [[sponsor1.address, contractPrincipal, '5000000']]);
+        assertEquals(receiptError(block.receipts[3]), 'err-pool-exists');
+        assertEquals(receiptError(block.receipts[4]), 'err-invalid-ratio');
+        assertEquals(receiptError(block.receipts[5]), 'err-invalid-amount');
+        assertEquals(receiptError(block.receipts[6]), 'err-campaign-not-found');
+        assertEquals(client.getCampaignSponsors(1), [sponsor1.address, sponsor2.address]);
+
+        block = chain.mineBlock([client.donateToCampaign(1, 4000000, donor1.address)]);
+        assertEquals(stxTransfers(block.receipts[0]), [
+            [donor1.address, beneficiary.address, '4000000'],
+            [contractPrincipal, beneficiary.address, '6000000'],
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[0]).filter((event) => event.topic === 'donation-matched'), [
+            { topic: 'donation-matched', campaignId: 1n, sponsor: sponsor1.address, donor: donor1.address, amount: 4000000n },
+            { topic: 'donation-matched', campaignId: 1n, sponsor: sponsor2.address, donor: donor1.address, amount: 2000000n },
+        ]);
+        assertEquals(client.getCampaignFunding(1), { organic: 4000000n, matched: 6000000n, roundMatched: 0n });
+
+        // The first pool has 1 STX left, so it only matches part of this gift
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 3000000, donor2.address),
+            client.donateWithMemo(1, 2000000, "Matched?", donor1.address),
+        ]);
+        assertEquals(stxTransfers(block.receipts[0])[1], [contractPrincipal, beneficiary.address, '2500000']);
+        assertEquals(stxTransfers(block.receipts[1])[1], [contractPrincipal, beneficiary.address, '1000000']);
+        assertEquals(client.getMatchingPool(1, sponsor1.address), {
+            ratio: 10000n,
+            deposited: 5000000n,
+            matched: 5000000n,
+            reclaimed: false,
+        });
+        assertEquals(client.getMatchingPool(1, sponsor2.address)!.matched, 4500000n);
+        assertEquals(client.getCampaignFunding(1), { organic: 9000000n, matched: 9500000n, roundMatched: 0n });
+        assertEquals(client.getCampaignDetails(1)!.raised, 18500000n);
+        // Matched funds are not the donors' own contribution
+        assertEquals(client.getUserContribution(donor1.address, 1), 6000000n);
+
+        block = chain.mineBlock([client.reclaimMatching(1, sponsor2.address)]);
+        assertEquals(receiptError(block.receipts[0]), 'err-campaign-in-progress');
+
+        chain.mineEmptyBlockUntil(Number(client.getCampaignDetails(1)!.deadline) + 1);
+        block = chain.mineBlock([
+            client.reclaimMatching(1, sponsor1.address),
+            client.reclaimMatching(1, sponsor2.address),
+            client.reclaimMatching(1, sponsor2.address),
+            client.reclaimMatching(1, donor1.address),
+            client.fundMatchingPool(1, 10000, 1000000, donor1.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 0n });
+        assertEquals(decodeReceipt(block.receipts[1], expectUint), { ok: true, value: 5500000n });
+        assertEquals(stxTransfers(block.receipts[1]), [[contractPrincipal, sponsor2.address, '5500000']]);
+        assertEquals(receiptError(block.receipts[2]), 'err-pool-reclaimed');
+        assertEquals(receiptError(block.receipts[3]), 'err-pool-not-found');
+        assertEquals(receiptError(block.receipts[4]), 'err-campaign-expired');
+    },
+});
+
+Clarinet.test({
+    name: "Ensure matched funds of all-or-nothing campaigns follow the escrow",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const sponsor = accounts.get('wallet_1')!;
+        const donor = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Missed",
+                description: "Falls short",
+                goal: 100000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Met",
+                description: "Reaches its goal with help",
+                goal: 10000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.fundMatchingPool(1, 10000, 20000000, sponsor.address),
+            client.fundMatchingPool(2, 10000, 20000000, sponsor.address),
+        ]);
+        let block = chain.mineBlock([
+            client.donateToCampaign(1, 5000000, donor.address),
+            client.donateToCampaign(2, 5000000, donor.address),
+        ]);
+        // Nothing leaves the contract before the deadline
+        assertEquals(stxTransfers(block.receipts[0]), [[donor.address, contractPrincipal, '5000000']]);
+        assertEquals(client.getCampaignEscrow(1), 10000000n);
+        assertEquals(client.getCampaignDetails(2)!.raised, 10000000n);
+
+        chain.mineEmptyBlockUntil(Number(client.getCampaignDetails(1)!.deadline) + 1);
+        block = chain.mineBlock([
+            client.claimRefund(1, donor.address),
+            client.closeCampaign(1, deployer.address),
+            client.reclaimMatching(1, sponsor.address),
+            client.closeCampaign(1, deployer.address),
+            client.withdrawCampaignFunds(2, beneficiary.address),
+            client.reclaimMatching(2, sponsor.address),
+        ]);
+        assertEquals(stxTransfers(block.receipts[0]), [[contractPrincipal, donor.address, '5000000']]);
+        assertEquals(receiptError(block.receipts[1]), 'err-escrow-not-empty');
+        // A failed campaign hands back the whole deposit, matched part included
+        assertEquals(decodeReceipt(block.receipts[2], expectUint), { ok: true, value: 20000000n });
+        assertEquals(block.receipts[3].result, '(ok true)');
+        assertEquals(stxTransfers(block.receipts[4]), [[contractPrincipal, beneficiary.address, '10000000']]);
+        assertEquals(decodeReceipt(block.receipts[5], expectUint), { ok: true, value: 15000000n });
+        assertEquals(client.getCampaignEscrow(2), 0n);
+    },
+});
@@ -0,0 +1,275 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt } from '../src/client.ts';
+import { expectBool, expectUint } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+import { stxTransfers } from './helpers.ts';
+
+Clarinet.test({
+    name: "Ensure an NFT listed at an absurd price no longer inflates a campaign or unlocks milestones",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const attacker = accounts.get('wallet_1')!;
+        const appraiser = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Milestones",
+                description: "Badges for big donors",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.addCampaignMilestone(1, 1, "Patron", 500000000, "https://example.com/reward/patron", deployer.address),
+            client.addCampaignMilestone(1, 2, "Fully funded", 1000000000, "https://example.com/reward/funded", deployer.address, true),
+            client.grantRole('appraiser', appraiser.address, deployer.address),
+            client.grantRole('appraiser', attacker.address, deployer.address),
+        ]);
+
+        // The exploit: mint, list at a price nobody would pay, donate
+        let block = chain.mineBlock([
+            client.mint('https://example.com/nft/1', 'art', attacker.address),
+            client.listForSale(1, 1000000000000, attacker.address),
+            client.donateNftToCampaign(1, 1, attacker.address),
+            client.checkAndClaimMilestoneReward(1, 1, attacker.address),
+            client.checkAndClaimMilestoneReward(1, 2, attacker.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[2], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[3]), 'err-no-participation');
+        assertEquals(receiptError(block.receipts[4]), 'err-no-participation');
+        assertEquals(client.getCampaignDetails(1)!.raised, 0n);
+        assertEquals(client.getUserContribution(attacker.address, 1), 0n);
+        assertEquals(client.getCampaignTopDonors(1), []);
+        assertEquals(client.getCampaignPendingNfts(1), [1n]);
+        assertEquals(client.generateCampaignReport(1), {
+            ok: true,
+            value: {
+                name: "Milestones",
+                totalRaised: 0n,
+                goalPercentage: 0n,
+                totalNfts: 1n,
+                pendingNfts: 1n,
+                status: 'active',
+                remainingBlocks: client.getCampaignDetails(1)!.deadline - BigInt(chain.blockHeight),
+            },
+        });
+
+        // Appraisers cannot value their own donations
+        block = chain.mineBlock([
+            client.appraiseNft(1, 1000000000000, attacker.address),
+            client.appraiseNft(1, 2000000, appraiser.address),
+            client.appraiseNft(2, 1000000, appraiser.address),
+            client.checkAndClaimMilestoneReward(1, 1, attacker.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-self-appraisal');
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(receiptError(block.receipts[2]), 'err-not-pending');
+        assertEquals(receiptError(block.receipts[3]), 'err-milestone-target-not-met');
+        assertEquals(client.getCampaignDetails(1)!.raised, 2000000n);
+        assertEquals(client.getCampaignPendingNfts(1), []);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure a pending NFT donation does not count as participation until it is credited",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const artist = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Participation",
+                description: "Badges for donors",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.addCampaignMilestone(1, 1, "Started", 1000000, "https://example.com/reward/started", deployer.address, true),
+            client.mint('https://example.com/nft/1', 'art', artist.address),
+            client.mint('https://example.com/nft/2', 'art', artist.address),
+            client.donateToCampaign(1, 1000000, donor.address),
+            client.donateNftToCampaign(1, 1, artist.address),
+            client.claimDonorBadge(1, artist.address),
+            client.checkAndClaimMilestoneReward(1, 1, artist.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[5], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[6]), 'err-no-participation');
+        assertEquals(receiptError(block.receipts[7]), 'err-no-participation');
+        assertEquals(client.getCampaignDonorCount(1), 1n);
+
+        // Taking the NFT back leaves nothing that counts either
+        block = chain.mineBlock([
+            client.releaseCampaignNft(1, 1, artist.address, deployer.address),
+            client.claimDonorBadge(1, artist.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(receiptError(block.receipts[1]), 'err-no-participation');
+
+        // Once an NFT is credited its donor is counted and may claim
+        block = chain.mineBlock([
+            client.donateNftToCampaign(2, 1, artist.address),
+            client.appraiseNft(2, 2000000, deployer.address),
+            client.claimDonorBadge(1, artist.address),
+            client.checkAndClaimMilestoneReward(1, 1, artist.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[2], expectUint), { ok: true, value: 1n });
+        assertEquals(decodeReceipt(block.receipts[3], expectUint), { ok: true, value: 2n });
+        assertEquals(client.getCampaignDonorCount(1), 2n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure NFT donations are credited by appraisal, by their sale or auction, or by the better of both",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const appraiser1 = accounts.get('wallet_2')!;
+        const appraiser2 = accounts.get('wallet_3')!;
+        const buyer = accounts.get('wallet_4')!;
+        const outsider = accounts.get('wallet_5')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Valuations",
+                description: "Donated art",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.grantRole('appraiser', appraiser1.address, deployer.address),
+            client.grantRole('appraiser', appraiser2.address, deployer.address),
+            client.setRequiredAppraisals(2, deployer.address),
+            client.setRequiredAppraisals(11, deployer.address),
+            client.setRequiredAppraisals(1, outsider.address),
+            ...[1, 2, 3, 4].map((i) => client.mint(`https://example.com/nft/${i}`, 'art', donor.address)),
+        ]);
+        assertEquals(receiptError(block.receipts[4]), 'err-invalid-appraisal-count');
+        assertEquals(receiptError(block.receipts[5]), 'err-missing-role');
+        assertEquals(client.getRequiredAppraisals(), 2n);
+
+        chain.mineBlock([1, 2, 3, 4].map((tokenId) => client.donateNftToCampaign(tokenId, 1, donor.address)));
+        assertEquals(client.getCampaignPendingNfts(1), [1n, 2n, 3n, 4n]);
+
+        // Token 1: two appraisals, credited with the lower one
+        block = chain.mineBlock([
+            client.appraiseNft(1, 30000000, appraiser1.address),
+            client.appraiseNft(1, 40000000, appraiser1.address),
+            client.appraiseNft(1, 20000000, outsider.address),
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-already-appraised');
+        assertEquals(receiptError(block.receipts[2]), 'err-missing-role');
+        assertEquals(client.getNftDonation(1), {
+            campaignId: 1n,
+            donor: donor.address,
+            appraisers: [appraiser1.address],
+            lowestAppraisal: 30000000n,
+        });
+        assertEquals(client.getCampaignDetails(1)!.raised, 0n);
+
+        block = chain.mineBlock([
+            client.appraiseNft(1, 25000000, appraiser2.address),
+            client.appraiseNft(1, 90000000, deployer.address),
+        ]);
+        assertEquals(client.getNftDonation(1)!.value, 25000000n);
+        assertEquals(receiptError(block.receipts[1]), 'err-not-pending');
+        assertEquals(client.getCampaignDetails(1)!.raised, 25000000n);
+
+        // Selling an appraised NFT for more credits only the difference
+        block = chain.mineBlock([
+            client.sellCampaignNft(1, 1, 60000000, deployer.address),
+            client.buyNft(1, buyer.address),
+        ]);
+        assertEquals(block.receipts[1].result, '(ok true)');
+        assertEquals(client.getNftDonation(1)!.value, 60000000n);
+        assertEquals(client.getCampaignDetails(1)!.raised, 60000000n);
+        assertEquals(client.getUserCampaignStats(donor.address, 1)!.totalValue, 60000000n);
+
+        // Token 2: sold before any appraisal, credited with the proceeds
+        block = chain.mineBlock([
+            client.appraiseNft(2, 1000000, appraiser1.address),
+            client.sellCampaignNft(1, 2, 15000000, deployer.address),
+            client.buyNft(2, buyer.address),
+        ]);
+        assertEquals(client.getNftDonation(2)!.value, 15000000n);
+        assertEquals(client.getCampaignDetails(1)!.raised, 75000000n);
+
+        // Token 3: auctioned, credited with the winning bid
+        const start = chain.blockHeight + 1;
+        chain.mineBlock([client.createAuction(
+            { campaignId: 1, tokenId: 3, startBlock: start, endBlock: start + 2, reserve: 5000000, minIncrement: 1000000 },
+            deployer.address,
+        )]);
+        chain.mineBlock([client.placeBid(3, 8000000, buyer.address)]);
+        chain.mineEmptyBlockUntil(start + 3);
+        block = chain.mineBlock([client.settleAuction(3, outsider.address)]);
+        assertEquals(block.receipts[0].result, '(ok true)');
+        assertEquals(client.getNftDonation(3)!.value, 8000000n);
+        assertEquals(client.getCampaignDetails(1)!.raised, 83000000n);
+        assertEquals(client.getUserContribution(donor.address, 1), 83000000n);
+
+        // Token 4: released while pending, which withdraws the donation
+        chain.mineBlock([client.releaseCampaignNft(1, 4, donor.address, deployer.address)]);
+        assertEquals(client.getNftDonation(4), undefined);
+        assertEquals(client.getCampaignPendingNfts(1), []);
+        assertEquals(client.getCampaignDetails(1)!.raised, 83000000n);
+        assertEquals(client.getCampaignTopDonors(1), [{ donor: donor.address, amount: 83000000n }]);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure an NFT valued after the deadline cannot flip a failed all-or-nothing campaign",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor1 = accounts.get('wallet_1')!;
+        const donor2 = accounts.get('wallet_2')!;
+        const collector = accounts.get('wallet_3')!;
+        const appraiser = accounts.get('wallet_4')!;
+        const sponsor = accounts.get('wallet_5')!;
+        const beneficiary = accounts.get('wallet_6')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Community Hall",
+                description: "All or nothing",
+                goal: 100000000,
+                duration: 10,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.grantRole('appraiser', appraiser.address, deployer.address),
+            client.mint('https://example.com/nft/1', 'art', collector.address),
+            client.fundMatchingPool(1, 2500, 10000000, sponsor.address),
+        ]);
+        chain.mineBlock([
+            client.donateToCampaign(1, 20000000, donor1.address),
+            client.donateToCampaign(1, 20000000, donor2.address),
+            client.donateNftToCampaign(1, 1, collector.address),
+        ]);
+        chain.mineEmptyBlockUntil(Number(client.getCampaignDetails(1)!.deadline) + 1);
+
+        let block = chain.mineBlock([client.claimRefund(1, donor1.address)]);
+        assertEquals(stxTransfers(block.receipts[0]), [[contractPrincipal, donor1.address, '20000000']]);
+
+        // The appraisal lifts raised past the goal, but the campaign stays failed
+        block = chain.mineBlock([client.appraiseNft(1, 80000000, appraiser.address)]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        assertEquals(client.getCampaignDetails(1)!.raised, 130000000n);
+        assertEquals(client.getCampaignStatus(1), 'failed');
+
+        block = chain.mineBlock([
+            client.claimRefund(1, donor2.address),
+            client.withdrawCampaignFunds(1, beneficiary.address),
+            client.reclaimMatching(1, sponsor.address),
+        ]);
+        assertEquals(stxTransfers(block.receipts[0]), [[contractPrincipal, donor2.address, '20000000']]);
+        assertEquals(receiptError(block.receipts[1]), 'err-goal-not-met');
+        assertEquals(stxTransfers(block.receipts[2]), [[contractPrincipal, sponsor.address, '10000000']]);
+        assertEquals(client.getCampaignEscrow(1), 0n);
+    },
+});
@@ -0,0 +1,157 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt } from '../src/client.ts';
+import { expectUint } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+import { PledgeKeeper } from '../src/keeper.ts';
+import { stxTransfers } from './helpers.ts';
+
+Clarinet.test({
+    name: "Ensure pledges release on schedule into the donation ledger and refund the rest on cancel",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const keeper = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Monthly",
+                description: "Regular giving",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.createPledge(1, 2000000, 10, 5000000, donor.address),
+            client.createPledge(1, 2000000, 10, 10000000, donor.address),
+            client.createPledge(1, 2000000, 0, 5000000, donor.address),
+            client.createPledge(1, 2000000, 10, 1000000, donor.address),
+            client.createPledge(9, 2000000, 10, 5000000, donor.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[1], expectUint), { ok: true, value: 1n });
+        assertEquals(stxTransfers(block.receipts[1]), [[donor.address, contractPrincipal, '5000000']]);
+        assertEquals(receiptError(block.receipts[3]), 'err-invalid-duration');
+        assertEquals(receiptError(block.receipts[4]), 'err-deposit-too-small');
+        assertEquals(receiptError(block.receipts[5]), 'err-campaign-not-found');
+        assertEquals(client.getPledge(1), {
+            donor: donor.address,
+            campaignId: 1n,
+            amount: 2000000n,
+            interval: 10n,
+            nextRelease: BigInt(block.height + 10),
+            balance: 5000000n,
+            cancelled: false,
+        });
+
+        block = chain.mineBlock([client.processPledge(1, keeper.address)]);
+        assertEquals(receiptError(block.receipts[0]), 'err-pledge-not-due');
+
+        chain.mineEmptyBlockUntil(Number(client.getPledge(1)!.nextRelease));
+        block = chain.mineBlock([
+            client.processPledge(1, keeper.address),
+            client.processPledge(1, keeper.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 2000000n });
+        assertEquals(stxTransfers(block.receipts[0]), [[contractPrincipal, beneficiary.address, '2000000']]);
+        assertEquals(receiptError(block.receipts[1]), 'err-pledge-not-due');
+        // Booked for the donor, not for whoever processed it
+        assertEquals(client.getAllDonationRecords(donor.address, 1).map((record) => record.amount), [2000000n]);
+        assertEquals(client.getUserDonationHistory(keeper.address, 1), undefined);
+        assertEquals(client.getTotalDonations(), 2000000n);
+        assertEquals(client.getCampaignDetails(1)!.raised, 2000000n);
+
+        // The last release is whatever is left
+        chain.mineEmptyBlockUntil(Number(client.getPledge(1)!.nextRelease) + 10);
+        block = chain.mineBlock([
+            client.processPledge(1, keeper.address),
+            client.processPledge(1, keeper.address),
+            client.processPledge(1, keeper.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 2000000n });
+        assertEquals(decodeReceipt(block.receipts[1], expectUint), { ok: true, value: 1000000n });
+        assertEquals(receiptError(block.receipts[2]), 'err-pledge-closed');
+        assertEquals(client.getUserLifetimeDonations(donor.address), 5000000n);
+
+        block = chain.mineBlock([
+            client.processPledge(2, keeper.address),
+            client.cancelPledge(2, keeper.address),
+            client.cancelPledge(2, donor.address),
+            client.processPledge(2, keeper.address),
+            client.cancelPledge(2, donor.address),
+            client.processPledge(3, keeper.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 2000000n });
+        assertEquals(receiptError(block.receipts[1]), 'err-not-pledge-donor');
+        assertEquals(decodeReceipt(block.receipts[2], expectUint), { ok: true, value: 8000000n });
+        assertEquals(stxTransfers(block.receipts[2]), [[contractPrincipal, donor.address, '8000000']]);
+        assertEquals(receiptError(block.receipts[3]), 'err-pledge-closed');
+        assertEquals(receiptError(block.receipts[4]), 'err-pledge-closed');
+        assertEquals(receiptError(block.receipts[5]), 'err-pledge-not-found');
+        assertEquals(client.getTotalDonations(), 7000000n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure the keeper processes every due pledge and skips pledges of finished campaigns",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donors = [1, 2, 3, 4, 5, 6].map((i) => accounts.get(`wallet_${i}`)!);
+        const bot = accounts.get('wallet_7')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const keeper = new PledgeKeeper(chain, client, bot.address);
+
+        chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Long",
+                description: "Runs for a while",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: deployer.address,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Short",
+                description: "Escrowed and ends early",
+                goal: 1000000000,
+                duration: 15,
+                beneficiary: deployer.address,
+                allOrNothing: true,
+            }, deployer.address),
+        ]);
+        // Eleven pledges so the keeper has to read two pages
+        chain.mineBlock([
+            ...donors.map((donor) => client.createPledge(1, 1000000, 5, 3000000, donor.address)),
+            ...donors.slice(0, 4).map((donor) => client.createPledge(1, 500000, 10, 3000000, donor.address)),
+            client.createPledge(2, 1000000, 5, 3000000, donors[5].address),
+        ]);
+        assertEquals(client.getPledgeCount(), 11n);
+        assertEquals(keeper.runOnce(), { processed: [] });
+
+        const rounds = keeper.run(3, 5);
+        assertEquals(rounds.map((round) => round.processed.map((entry) => Number(entry.pledgeId))), [
+            [],
+            [1, 2, 3, 4, 5, 6, 11],
+            [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+        ]);
+        assertEquals(rounds[2].processed.every((entry) => entry.result.ok), true);
+        assertEquals(client.getCampaignEscrow(2), 2000000n);
+        assertEquals(client.getRefundableDonation(donors[5].address, 2), 2000000n);
+
+        // Campaign 2 has passed its deadline, so its pledge is no longer due
+        chain.mineEmptyBlockUntil(Number(client.getCampaignDetails(2)!.deadline) + 1);
+        assertEquals(client.isPledgeDue(11), false);
+        const last = keeper.runOnce();
+        assertEquals(last.processed.map((entry) => [entry.pledgeId, entry.result]), [
+            [1n, { ok: true, value: 1000000n }],
+            [2n, { ok: true, value: 1000000n }],
+            [3n, { ok: true, value: 1000000n }],
+            [4n, { ok: true, value: 1000000n }],
+            [5n, { ok: true, value: 1000000n }],
+            [6n, { ok: true, value: 1000000n }],
+        ]);
+        assertEquals(client.getPledge(1)!.balance, 0n);
+        assertEquals(client.getDuePledges(), []);
+        assertEquals(client.getUserDonationHistory(donors[0].address, 1)!.total, 3500000n);
+    },
+});
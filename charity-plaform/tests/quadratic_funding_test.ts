@@ -0,0 +1,213 @@
+import { Clarinet, Chain, Account } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient, decodeReceipt } from '../src/client.ts';
+import { expectUint } from '../src/clarity.ts';
+import { receiptError } from '../src/errors.ts';
+import { decodeBlockEvents } from '../src/events.ts';
+import { RoundGift, allocateRound } from '../src/quadratic.ts';
+import { stxTransfers } from './helpers.ts';
+
+Clarinet.test({
+    name: "Ensure a round's pot favours many small donors and matches the reference payout",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const whale = accounts.get('wallet_1')!;
+        const crowd = [2, 3, 4, 5, 6, 7].map((i) => accounts.get(`wallet_${i}`)!);
+        const beneficiary1 = accounts.get('wallet_8')!;
+        const beneficiary2 = accounts.get('wallet_9')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+        const pot = 100000000n;
+
+        const campaign = (name: string, beneficiary: string, allOrNothing = false) => client.createCharityCampaign({
+            name,
+            description: "Seasonal round",
+            goal: 1000000000,
+            duration: 1000,
+            beneficiary,
+            allOrNothing,
+        }, deployer.address);
+        chain.mineBlock([
+            campaign("Whale", beneficiary1.address),
+            campaign("Crowd", beneficiary2.address),
+            campaign("Quiet", deployer.address),
+            campaign("Escrowed", deployer.address, true),
+            campaign("Outside", deployer.address),
+        ]);
+
+        const start = chain.blockHeight + 5;
+        const round = { pot, startBlock: start, endBlock: start + 10, campaignIds: [1, 2, 3] };
+        let block = chain.mineBlock([
+            client.createRound(round, whale.address),
+            client.createRound({ ...round, campaignIds: [1, 4] }, deployer.address),
+            client.createRound({ ...round, campaignIds: [1, 1] }, deployer.address),
+            client.createRound({ ...round, campaignIds: [1, 9] }, deployer.address),
+            client.createRound({ ...round, campaignIds: [] }, deployer.address),
+            client.createRound({ ...round, startBlock: 1 }, deployer.address),
+            client.createRound(round, deployer.address),
+            client.createRound({ ...round, campaignIds: [2] }, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-missing-role');
+        assertEquals(receiptError(block.receipts[1]), 'err-round-ineligible');
+        assertEquals(receiptError(block.receipts[2]), 'err-round-ineligible');
+        assertEquals(receiptError(block.receipts[3]), 'err-campaign-not-found');
+        assertEquals(receiptError(block.receipts[4]), 'err-empty-round');
+        assertEquals(receiptError(block.receipts[5]), 'err-invalid-round-window');
+        assertEquals(decodeReceipt(block.receipts[6], expectUint), { ok: true, value: 1n });
+        assertEquals(stxTransfers(block.receipts[6]), [[deployer.address, contractPrincipal, String(pot)]]);
+        assertEquals(receiptError(block.receipts[7]), 'err-round-ineligible');
+        assertEquals(client.getCampaignRound(2), 1n);
+
+        // Too early to count
+        chain.mineBlock([client.donateToCampaign(2, 50000000, crowd[0].address)]);
+        assertEquals(client.getRoundContribution(1, 2, crowd[0].address), 0n);
+
+        // One large gift against six small donors, one of whom gives twice
+        chain.mineEmptyBlockUntil(start);
+        const gifts: RoundGift[] = [];
+        const mine = (txs: Parameters<Chain['mineBlock']>[0]) => {
+            const mined = chain.mineBlock(txs);
+            for (const event of decodeBlockEvents(mined)) {
+                if (event.topic === 'round-contribution') {
+                    gifts.push({ campaignId: event.campaignId, donor: event.donor, amount: event.amount });
+                }
+            }
+            return mined;
+        };
+        mine([
+            client.donateToCampaign(1, 90000000, whale.address),
+            ...crowd.map((donor) => client.donateToCampaign(2, 3000000, donor.address)),
+            client.donateToCampaign(5, 5000000, whale.address),
+        ]);
+        mine([client.donateWithMemo(2, 1000000, "Again", crowd[5].address)]);
+        assertEquals(client.getRoundCampaign(1, 2), {
+            contributed: 19000000n,
+            donors: 6n,
+            sumSqrt: 5n * 1732n + 2000n,
+            matched: 0n,
+        });
+        assertEquals(client.getRoundContribution(1, 2, crowd[5].address), 4000000n);
+
+        const expected = allocateRound(pot, [1n, 2n, 3n], gifts);
+        assertEquals(gifts.length, 8);
+        assertEquals(
+            [1, 2, 3].map((id) => client.estimateRoundMatch(1, id)),
+            expected.allocations.map((allocation) => allocation.matched),
+        );
+        assertEquals(client.estimateRoundMatch(1, 5), 0n);
+
+        block = chain.mineBlock([client.finalizeRound(1, crowd[0].address)]);
+        assertEquals(receiptError(block.receipts[0]), 'err-round-not-ended');
+
+        // Too late to count
+        chain.mineEmptyBlockUntil(start + 11);
+        block = chain.mineBlock([
+            client.donateToCampaign(1, 50000000, whale.address),
+            client.finalizeRound(1, crowd[0].address),
+            client.finalizeRound(1, crowd[0].address),
+            client.finalizeRound(2, crowd[0].address),
+        ]);
+        const [whaleMatch, crowdMatch, quietMatch] = expected.allocations.map((allocation) => allocation.matched);
+        assertEquals(decodeReceipt(block.receipts[1], expectUint), { ok: true, value: pot - expected.refund });
+        assertEquals(stxTransfers(block.receipts[1]), [
+            [contractPrincipal, beneficiary1.address, String(whaleMatch)],
+            [contractPrincipal, beneficiary2.address, String(crowdMatch)],
+            [contractPrincipal, deployer.address, String(expected.refund)],
+        ]);
+        assertEquals(receiptError(block.receipts[2]), 'err-round-finalized');
+        assertEquals(receiptError(block.receipts[3]), 'err-round-not-found');
+        assertEquals(crowdMatch > whaleMatch, true);
+        assertEquals(quietMatch, 0n);
+        assertEquals(client.getRoundCampaign(1, 1).contributed, 90000000n);
+        assertEquals(client.getRoundCampaign(1, 2).matched, crowdMatch);
+        assertEquals(client.getCampaignFunding(2), { organic: 69000000n, matched: 0n, roundMatched: crowdMatch });
+        assertEquals(client.getRound(1)!.finalized, true);
+
+        // A finalized round frees its campaigns for the next one
+        block = chain.mineBlock([
+            client.createRound({ ...round, startBlock: chain.blockHeight + 1, endBlock: chain.blockHeight + 5 }, deployer.address),
+        ]);
+        assertEquals(decodeReceipt(block.receipts[0], expectUint), { ok: true, value: 2n });
+        assertEquals(client.getRoundCount(), 2n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure round matches follow campaign splits and an empty round returns its pot",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor = accounts.get('wallet_1')!;
+        const partner = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+
+        chain.mineBlock([
+            ...["Split", "Empty"].map((name) => client.createCharityCampaign({
+                name,
+                description: "Round with one campaign",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address)),
+            client.setCampaignSplits(1, [{ recipient: partner.address, share: 1000 }], deployer.address),
+        ]);
+        const start = chain.blockHeight + 1;
+        chain.mineBlock([
+            client.createRound({ pot: 10000000, startBlock: start, endBlock: start + 3, campaignIds: [1] }, deployer.address),
+            client.createRound({ pot: 7000000, startBlock: start, endBlock: start + 3, campaignIds: [2] }, deployer.address),
+        ]);
+        chain.mineBlock([client.donateToCampaign(1, 1000000, donor.address)]);
+        chain.mineEmptyBlockUntil(start + 4);
+
+        const block = chain.mineBlock([
+            client.finalizeRound(1, donor.address),
+            client.finalizeRound(2, donor.address),
+        ]);
+        // The only scoring campaign takes the whole pot
+        assertEquals(stxTransfers(block.receipts[0]), [
+            [contractPrincipal, partner.address, '1000000'],
+            [contractPrincipal, beneficiary.address, '9000000'],
+        ]);
+        assertEquals(decodeReceipt(block.receipts[1], expectUint), { ok: true, value: 0n });
+        assertEquals(stxTransfers(block.receipts[1]), [[contractPrincipal, deployer.address, '7000000']]);
+        assertEquals(client.getCampaignDetails(1)!.raised, 11000000n);
+        assertEquals(client.getTotalDonations(), 11000000n);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure only campaigns still taking donations can join a round",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const beneficiary = accounts.get('wallet_1')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        chain.mineBlock(["Open", "Ended", "Paused", "Expired"].map((name) => client.createCharityCampaign({
+            name,
+            description: "Round candidate",
+            goal: 1000000000,
+            duration: name === "Expired" ? 1 : 1000,
+            beneficiary: beneficiary.address,
+        }, deployer.address)));
+        chain.mineBlock([
+            client.endCampaign(2, deployer.address),
+            client.pauseCampaign(3, deployer.address),
+        ]);
+        chain.mineEmptyBlock(1);
+
+        const start = chain.blockHeight + 1;
+        const round = { pot: 10000000, startBlock: start, endBlock: start + 3, campaignIds: [1] };
+        const block = chain.mineBlock([
+            client.createRound({ ...round, campaignIds: [1, 2] }, deployer.address),
+            client.createRound({ ...round, campaignIds: [1, 3] }, deployer.address),
+            client.createRound({ ...round, campaignIds: [1, 4] }, deployer.address),
+            client.createRound(round, deployer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-campaign-inactive');
+        assertEquals(receiptError(block.receipts[1]), 'err-campaign-paused');
+        assertEquals(receiptError(block.receipts[2]), 'err-campaign-expired');
+        assertEquals(decodeReceipt(block.receipts[3], expectUint), { ok: true, value: 1n });
+        assertEquals(client.getCampaignRound(2), undefined);
+    },
+});
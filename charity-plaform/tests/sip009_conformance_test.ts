@@ -0,0 +1,148 @@
+import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { decodeReceipt, decodeResponse, decodeTokenMetadata } from '../src/client.ts';
+import {
+    expectBool,
+    expectOptional,
+    expectPrincipal,
+    expectString,
+    expectUint,
+    parseClarityValue,
+} from '../src/clarity.ts';
+
+// Standard SIP-009 checks, run against the trait functions directly rather than the client.
+const CONTRACT = 'charity_plaform';
+const ASSET = 'charity-nft';
+
+function mint(uri: string, sender: string): Tx {
+    return Tx.contractCall(CONTRACT, 'mint', [types.ascii(uri), types.utf8('art')], sender);
+}
+
+function transfer(tokenId: number, from: string, recipient: string, sender: string): Tx {
+    return Tx.contractCall(
+        CONTRACT,
+        'transfer',
+        [types.uint(tokenId), types.principal(from), types.principal(recipient)],
+        sender
+    );
+}
+
+function getLastTokenId(chain: Chain, caller: string) {
+    return decodeResponse(chain.callReadOnlyFn(CONTRACT, 'get-last-token-id', [], caller).result, expectUint);
+}
+
+function getOwner(chain: Chain, tokenId: number, caller: string) {
+    return decodeResponse(
+        chain.callReadOnlyFn(CONTRACT, 'get-owner', [types.uint(tokenId)], caller).result,
+        (v) => expectOptional(v, expectPrincipal)
+    );
+}
+
+function getTokenUri(chain: Chain, tokenId: number, caller: string) {
+    return decodeResponse(
+        chain.callReadOnlyFn(CONTRACT, 'get-token-uri', [types.uint(tokenId)], caller).result,
+        (v) => expectOptional(v, expectString)
+    );
+}
+
+Clarinet.test({
+    name: "SIP-009: get-last-token-id starts at zero and tracks mints",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+
+        assertEquals(getLastTokenId(chain, deployer.address), { ok: true, value: 0n });
+
+        chain.mineBlock([
+            mint('https://example.com/nft/1', user1.address),
+            mint('https://example.com/nft/2', user1.address),
+        ]);
+        assertEquals(getLastTokenId(chain, deployer.address), { ok: true, value: 2n });
+    },
+});
+
+Clarinet.test({
+    name: "SIP-009: get-token-uri and get-owner return ok none for unknown tokens",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+
+        assertEquals(getTokenUri(chain, 1, deployer.address), { ok: true, value: undefined });
+        assertEquals(getOwner(chain, 1, deployer.address), { ok: true, value: undefined });
+
+        chain.mineBlock([mint('https://example.com/nft/1', user1.address)]);
+
+        assertEquals(getTokenUri(chain, 1, deployer.address), { ok: true, value: 'https://example.com/nft/1' });
+        assertEquals(getOwner(chain, 1, deployer.address), { ok: true, value: user1.address });
+    },
+});
+
+Clarinet.test({
+    name: "SIP-009: mint and transfer move the native asset",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const assetIdentifier = `${deployer.address}.${CONTRACT}::${ASSET}`;
+
+        let block = chain.mineBlock([mint('https://example.com/nft/1', user1.address)]);
+        assertEquals(block.receipts[0].events[0].type, 'nft_mint_event');
+        assertEquals(block.receipts[0].events[0].nft_mint_event.asset_identifier, assetIdentifier);
+        assertEquals(block.receipts[0].events[0].nft_mint_event.recipient, user1.address);
+
+        block = chain.mineBlock([transfer(1, user1.address, user2.address, user1.address)]);
+        assertEquals(decodeReceipt(block.receipts[0], expectBool), { ok: true, value: true });
+        // The transfer moves exactly one asset; the second event is the contract's print
+        assertEquals(block.receipts[0].events.length, 2);
+        assertEquals(block.receipts[0].events[1].type, 'contract_event');
+        assertEquals(block.receipts[0].events[0].type, 'nft_transfer_event');
+        assertEquals(block.receipts[0].events[0].nft_transfer_event.asset_identifier, assetIdentifier);
+        assertEquals(block.receipts[0].events[0].nft_transfer_event.sender, user1.address);
+        assertEquals(block.receipts[0].events[0].nft_transfer_event.recipient, user2.address);
+        assertEquals(block.receipts[0].events[0].nft_transfer_event.value, 'u1');
+        assertEquals(getOwner(chain, 1, deployer.address), { ok: true, value: user2.address });
+    },
+});
+
+Clarinet.test({
+    name: "SIP-009: transfer rejects callers other than the owning sender",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+        const user3 = accounts.get('wallet_3')!;
+
+        chain.mineBlock([mint('https://example.com/nft/1', user1.address)]);
+
+        const block = chain.mineBlock([
+            // tx-sender is not the sender argument
+            transfer(1, user1.address, user3.address, user2.address),
+            // sender argument matches tx-sender but does not own the token
+            transfer(1, user2.address, user3.address, user2.address),
+            // token does not exist
+            transfer(2, user1.address, user3.address, user1.address),
+        ]);
+        for (const receipt of block.receipts) {
+            assertEquals(decodeReceipt(receipt, expectBool).ok, false);
+            assertEquals(receipt.events.length, 0);
+        }
+        assertEquals(getOwner(chain, 1, deployer.address), { ok: true, value: user1.address });
+    },
+});
+
+Clarinet.test({
+    name: "SIP-009: transfers keep the creator and category metadata",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const user1 = accounts.get('wallet_1')!;
+        const user2 = accounts.get('wallet_2')!;
+
+        chain.mineBlock([mint('https://example.com/nft/1', user1.address)]);
+        chain.mineBlock([transfer(1, user1.address, user2.address, user1.address)]);
+
+        const { result } = chain.callReadOnlyFn(CONTRACT, 'get-token-metadata', [types.uint(1)], deployer.address);
+        const metadata = expectOptional(parseClarityValue(result), decodeTokenMetadata)!;
+        assertEquals(metadata.creator, user1.address);
+        assertEquals(metadata.category, 'art');
+    },
+});
@@ -0,0 +1,183 @@
+import { Clarinet, Chain, Account, Tx, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient } from '../src/client.ts';
+import { receiptError } from '../src/errors.ts';
+import { decodeReceiptEvents } from '../src/events.ts';
+import { tokenTransfers } from './helpers.ts';
+
+// Both mocks are deployments of contracts/mocks/mock_sip010_token.clar
+const mintToken = (token: string, amount: number, recipient: string) =>
+    Tx.contractCall(token, 'mint', [types.uint(amount), types.principal(recipient)], recipient);
+
+Clarinet.test({
+    name: "Ensure campaigns take STX and approved tokens side by side, accounted per token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const donor1 = accounts.get('wallet_1')!;
+        const donor2 = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const partner = accounts.get('wallet_4')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const usd = `${deployer.address}.mock_usd`;
+        const eur = `${deployer.address}.mock_eur`;
+
+        let block = chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Mixed",
+                description: "STX and stablecoins",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.createCharityCampaign({
+                name: "Escrowed",
+                description: "All or nothing",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+                allOrNothing: true,
+            }, deployer.address),
+            client.setCampaignSplits(1, [{ recipient: partner.address, share: 2500 }], deployer.address),
+            mintToken('mock_usd', 100000000, donor1.address),
+            mintToken('mock_eur', 100000000, donor2.address),
+            client.setPaymentToken(usd, true, deployer.address),
+            client.setPaymentToken(eur, true, donor1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[6]), 'err-missing-role');
+        assertEquals(client.getPaymentTokens(), [usd]);
+
+        block = chain.mineBlock([
+            client.donateTokenToCampaign(1, usd, 10000000, donor1.address),
+            client.donateTokenToCampaign(1, eur, 4000000, donor2.address),
+            client.donateTokenToCampaign(2, usd, 10000000, donor1.address),
+            client.donateTokenToCampaign(1, usd, 500000000, donor1.address),
+            client.donateTokenToCampaign(1, usd, 0, donor1.address),
+            client.donateToCampaign(1, 5000000, donor2.address),
+        ]);
+        assertEquals(block.receipts[0].result, '(ok true)');
+        // The split recipient takes its share in the token too
+        assertEquals(tokenTransfers(block.receipts[0]), [
+            [donor1.address, partner.address, '2500000'],
+            [donor1.address, beneficiary.address, '7500000'],
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-token-not-approved');
+        assertEquals(receiptError(block.receipts[2]), 'err-stx-only');
+        assertEquals(receiptError(block.receipts[3]), 'err-insufficient-funds');
+        assertEquals(receiptError(block.receipts[4]), 'err-invalid-amount');
+
+        block = chain.mineBlock([
+            client.setPaymentToken(eur, true, deployer.address),
+            client.donateTokenToCampaign(1, eur, 4000000, donor2.address),
+            client.donateTokenToCampaign(1, usd, 6000000, donor1.address),
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[1]), [
+            { topic: 'campaign-token-credited', campaignId: 1n, token: eur, amount: 4000000n, raised: 4000000n },
+            { topic: 'campaign-token-donation', campaignId: 1n, donor: donor2.address, token: eur, amount: 4000000n },
+        ]);
+
+        // Token amounts stay out of the STX totals
+        assertEquals(client.getCampaignDetails(1)!.raised, 5000000n);
+        assertEquals(client.getTotalDonations(), 5000000n);
+        assertEquals(client.getCampaignTokenFunding(1), { [usd]: 16000000n, [eur]: 4000000n });
+        assertEquals(client.getUserTokenDonations(donor1.address, 1, usd), 16000000n);
+        assertEquals(client.getUserTokenDonations(donor2.address, 1, usd), 0n);
+        assertEquals(client.getTotalTokenDonations(eur), 4000000n);
+        assertEquals(client.getCampaignDonorCount(1), 2n);
+        assertEquals(client.getCampaignTopDonors(1), [{ donor: donor2.address, amount: 5000000n }]);
+
+        block = chain.mineBlock([
+            client.setPaymentToken(usd, false, deployer.address),
+            client.donateTokenToCampaign(1, usd, 1000000, donor1.address),
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-token-not-approved');
+        assertEquals(client.getPaymentTokens(), [eur]);
+        assertEquals(client.isPaymentTokenApproved(usd), false);
+    },
+});
+
+Clarinet.test({
+    name: "Ensure listings priced in a token settle every share in that token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const artist = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const beneficiary = accounts.get('wallet_3')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const usd = `${deployer.address}.mock_usd`;
+        const eur = `${deployer.address}.mock_eur`;
+
+        chain.mineBlock([
+            client.createCharityCampaign({
+                name: "Art for water",
+                description: "Token sales",
+                goal: 1000000000,
+                duration: 1000,
+                beneficiary: beneficiary.address,
+            }, deployer.address),
+            client.setPaymentToken(usd, true, deployer.address),
+            mintToken('mock_usd', 100000000, buyer.address),
+            ...[1, 2, 3].map((i) => client.mint(`https://example.com/nft/${i}`, 'art', artist.address)),
+            client.setCreatorRoyalty(500, artist.address),
+        ]);
+
+        let block = chain.mineBlock([
+            client.listForSale(1, 50000000, artist.address, { campaignId: 1, paymentToken: usd }),
+            client.listForSale(2, 10000000, artist.address, { paymentToken: eur }),
+            client.listForSale(2, 10000000, artist.address, { paymentToken: usd }),
+            client.listForSale(3, 10000000, artist.address),
+        ]);
+        assertEquals(receiptError(block.receipts[1]), 'err-token-not-approved');
+        assertEquals(client.getListing(1), {
+            seller: artist.address,
+            price: 50000000n,
+            expiry: client.getListing(1)!.expiry,
+            campaignId: 1n,
+            paymentToken: usd,
+        });
+
+        // The royalty goes to the artist, who is also the seller, so it is paid alongside the proceeds
+        block = chain.mineBlock([
+            client.buyNft(1, buyer.address),
+            client.buyNftWithToken(1, eur, buyer.address),
+            client.buyNftWithToken(3, usd, buyer.address),
+            client.buyNftWithToken(1, usd, buyer.address),
+            client.buyNftWithToken(2, usd, buyer.address),
+            client.buyNft(3, buyer.address),
+        ]);
+        assertEquals(receiptError(block.receipts[0]), 'err-wrong-payment-token');
+        assertEquals(receiptError(block.receipts[1]), 'err-wrong-payment-token');
+        assertEquals(receiptError(block.receipts[2]), 'err-wrong-payment-token');
+        assertEquals(tokenTransfers(block.receipts[3]), [
+            [buyer.address, artist.address, '37500000'],
+            [buyer.address, artist.address, '2500000'],
+            [buyer.address, beneficiary.address, '10000000'],
+        ]);
+        assertEquals(decodeReceiptEvents(block.receipts[3]).find((event) => event.topic === 'nft-sold'), {
+            topic: 'nft-sold',
+            tokenId: 1n,
+            seller: artist.address,
+            buyer: buyer.address,
+            price: 50000000n,
+            royalty: 2500000n,
+            donation: 10000000n,
+            campaignId: 1n,
+            paymentToken: usd,
+        });
+        // Without a campaign the charity share goes to the charity address
+        assertEquals(tokenTransfers(block.receipts[4])[2], [buyer.address, client.getCharityAddress(), '2000000']);
+        assertEquals(block.receipts[5].result, '(ok true)');
+        assertEquals(client.getOwner(1), buyer.address);
+        assertEquals(client.getListing(1), undefined);
+        assertEquals(client.getCampaignTokenRaised(1, usd), 10000000n);
+        assertEquals(client.getTotalTokenDonations(usd), 12000000n);
+        assertEquals(client.getCampaignDetails(1)!.raised, 0n);
+
+        // Revoking a token freezes the listings priced in it
+        block = chain.mineBlock([
+            client.listForSale(1, 5000000, buyer.address, { paymentToken: usd }),
+            client.setPaymentToken(usd, false, deployer.address),
+            client.buyNftWithToken(1, usd, artist.address),
+        ]);
+        assertEquals(receiptError(block.receipts[2]), 'err-token-not-approved');
+    },
+});
@@ -0,0 +1,116 @@
+import { Clarinet, Chain, Account, Tx } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { CharityPlatformClient } from '../src/client.ts';
+
+const categories = ['art', 'music', 'photo'];
+
+// Small seeded generator so failing sequences can be replayed
+function mulberry32(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const sorted = (tokens: bigint[]) => [...tokens].sort((a, b) => Number(a - b));
+
+function assertIndexesMatchOwners(client: CharityPlatformClient, principals: string[]) {
+    const lastTokenId = Number(client.getLastTokenId());
+    const owners = new Map<string, bigint[]>();
+    const creators = new Map<string, bigint[]>();
+    const byCategory = new Map<string, bigint[]>();
+    for (let id = 1; id <= lastTokenId; id++) {
+        const tokenId = BigInt(id);
+        const owner = client.getOwner(tokenId)!;
+        const metadata = client.getTokenMetadata(tokenId)!;
+        owners.set(owner, [...(owners.get(owner) ?? []), tokenId]);
+        creators.set(metadata.creator, [...(creators.get(metadata.creator) ?? []), tokenId]);
+        byCategory.set(metadata.category, [...(byCategory.get(metadata.category) ?? []), tokenId]);
+    }
+    for (const principal of principals) {
+        assertEquals(sorted(client.getAllTokensByOwner(principal)), owners.get(principal) ?? []);
+        assertEquals(client.getOwnerTokenCount(principal), BigInt(owners.get(principal)?.length ?? 0));
+        assertEquals(client.getAllTokensByCreator(principal), creators.get(principal) ?? []);
+    }
+    for (const category of categories) {
+        assertEquals(client.getAllTokensByCategory(category), byCategory.get(category) ?? []);
+    }
+}
+
+Clarinet.test({
+    name: "Ensure token indexes page in order and reuse freed owner slots",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const artist = accounts.get('wallet_1')!;
+        const collector = accounts.get('wallet_2')!;
+        const client = new CharityPlatformClient(chain, deployer.address);
+
+        chain.mineBlock(Array.from({ length: 23 }, (_, i) =>
+            client.mint(`https://example.com/nft/${i + 1}`, i % 2 === 0 ? 'art' : 'music', artist.address)));
+
+        const all = Array.from({ length: 23 }, (_, i) => BigInt(i + 1));
+        assertEquals(client.getTokensByCreator(artist.address), all.slice(0, 10));
+        assertEquals(client.getTokensByCreator(artist.address, 20), all.slice(20));
+        assertEquals(client.getTokensByCreator(artist.address, 23), []);
+        assertEquals(client.getCategoryTokenCount('art'), 12n);
+        assertEquals(client.getTokensByCategory('music', 10), [22n]);
+        assertEquals(client.getAllTokensByOwner(artist.address), all);
+
+        // The owner's last token fills the slot of the one that left
+        chain.mineBlock([client.transfer(3, collector.address, artist.address)]);
+        assertEquals(client.getTokensByOwner(artist.address), [1n, 2n, 23n, 4n, 5n, 6n, 7n, 8n, 9n, 10n]);
+        assertEquals(client.getOwnerTokenCount(artist.address), 22n);
+        assertEquals(client.getTokensByOwner(collector.address), [3n]);
+        // Creator and category indexes do not follow the owner
+        assertEquals(client.getCreatorTokenCount(collector.address), 0n);
+        assertEquals(client.getTokensByCreator(artist.address), all.slice(0, 10));
+    },
+});
+
+Clarinet.test({
+    name: "Ensure token indexes match token owners after random operation sequences",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const wallets = [1, 2, 3, 4, 5].map((i) => accounts.get(`wallet_${i}`)!.address);
+        const client = new CharityPlatformClient(chain, deployer.address);
+        const contractPrincipal = `${deployer.address}.${client.contract}`;
+        const principals = [deployer.address, ...wallets, contractPrincipal];
+        const random = mulberry32(18);
+        const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+        chain.mineBlock([client.createCharityCampaign({
+            name: "Index",
+            description: "Receives donated NFTs",
+            goal: 100000000,
+            duration: 1000,
+            beneficiary: deployer.address,
+        }, deployer.address)]);
+
+        for (let round = 0; round < 40; round++) {
+            const lastTokenId = Number(client.getLastTokenId());
+            const tokenId = lastTokenId === 0 ? 0 : 1 + Math.floor(random() * lastTokenId);
+            const owner = tokenId === 0 ? undefined : client.getOwner(tokenId);
+            const other = pick(wallets.filter((wallet) => wallet !== owner));
+            const operation = owner === undefined ? 0 : Math.floor(random() * 5);
+            let txs: Tx[];
+            if (operation === 0) {
+                txs = [client.mint(`https://example.com/nft/${round}`, pick(categories), pick(wallets))];
+            } else if (owner === contractPrincipal) {
+                txs = [client.releaseCampaignNft(1, tokenId, other, deployer.address)];
+            } else if (operation === 1) {
+                txs = [client.transfer(tokenId, other, owner!)];
+            } else if (operation === 2) {
+                txs = [client.listForSale(tokenId, 1000, owner!), client.buyNft(tokenId, other)];
+            } else if (operation === 3) {
+                txs = [client.donateNftToCampaign(tokenId, 1, owner!)];
+            } else {
+                // Invalid transfers must leave the indexes untouched
+                txs = [client.transfer(tokenId, other, other)];
+            }
+            chain.mineBlock(txs);
+            assertIndexesMatchOwners(client, principals);
+        }
+    },
+});